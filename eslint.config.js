@@ -35,6 +35,10 @@ export default [
       '@typescript-eslint/no-empty-interface': 0,
       '@typescript-eslint/no-use-before-define': ['error', 'nofunc'],
       '@typescript-eslint/no-unused-vars': ['warn', { args: 'none' }],
+      // The base rule reports the parameters of type signatures, such as the
+      // methods of the instrumentation interfaces, as unused. The rule above
+      // understands TypeScript and covers the same mistakes.
+      'no-unused-vars': 0,
       '@typescript-eslint/no-floating-promises': 'error',
       '@typescript-eslint/no-misused-promises': 'error',
       
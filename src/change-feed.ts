@@ -0,0 +1,229 @@
+import type { Cluster, Redis } from "ioredis";
+
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+import { compileRedisPattern, wrapRedisError } from "./utils.js";
+import type { RedisSaverContext } from "./saver-context.js";
+
+// Approximate number of events kept in the change feed by default
+export const CHANGE_FEED_MAX_LEN = 10000;
+
+// Entries read from the change feed per XREAD call
+const CHANGE_FEED_BATCH_SIZE = 100;
+
+// Reads an entry of the change feed stream, whose fields are flat
+// [name, value, ...] pairs
+function parseCheckpointEvent(id: string, entry: string[]): CheckpointEvent {
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < entry.length; i += 2) {
+    fields[entry[i]] = entry[i + 1];
+  }
+  const { type, thread_id, checkpoint_ns, checkpoint_id } = fields;
+  if (type === "checkpoint") {
+    return {
+      id,
+      type,
+      thread_id,
+      checkpoint_ns,
+      checkpoint_id,
+      ...(fields.parent_checkpoint_id && {
+        parent_checkpoint_id: fields.parent_checkpoint_id,
+      }),
+      ...(fields.step !== undefined && { step: Number(fields.step) }),
+    };
+  }
+  try {
+    return {
+      id,
+      type: "writes",
+      thread_id,
+      checkpoint_ns,
+      checkpoint_id,
+      task_id: fields.task_id,
+      channels: JSON.parse(fields.channels),
+    };
+  } catch (error) {
+    throw new CheckpointSerializationError(
+      `Failed to parse change feed event: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Event: ${id}`,
+      { cause: error, operation: "subscribe", thread_id, checkpoint_id }
+    );
+  }
+}
+
+export type ChangeFeedOptions = {
+  maxLen?: number; // Approximate number of events kept in the stream (default 10000)
+};
+
+// Published to the change feed by put() and putWrites(). `id` is the stream
+// entry ID, which subscribe() accepts as `fromId` to resume after the event.
+export type CheckpointEvent =
+  | {
+      id: string;
+      type: "checkpoint";
+      thread_id: string;
+      checkpoint_ns: string;
+      checkpoint_id: string;
+      parent_checkpoint_id?: string;
+      step?: number; // metadata.step of the checkpoint
+    }
+  | {
+      id: string;
+      type: "writes";
+      thread_id: string;
+      checkpoint_ns: string;
+      checkpoint_id: string;
+      task_id: string;
+      channels: string[]; // Channels written by the task
+    };
+
+export type SubscribeOptions = {
+  // Entry ID to read after. Defaults to the end of the stream, so only new
+  // events are read. Ignored with a consumer group.
+  fromId?: string;
+  // Consumer group sharing the events of the matching threads between its
+  // consumers. Each event is delivered to one of them and acknowledged once
+  // the next one is requested. Every consumer of a group must subscribe to
+  // the same thread or pattern.
+  group?: string;
+  // Name within the group, required with `group`. Keep it stable, so a
+  // restarted consumer resumes its unacknowledged events.
+  consumer?: string;
+  blockMs?: number; // Time each read waits for new events (default 5000)
+  signal?: AbortSignal; // Ends the subscription
+};
+
+export async function* subscribe(
+  context: RedisSaverContext,
+  thread: string | { pattern: string },
+  options: SubscribeOptions = {}
+): AsyncGenerator<CheckpointEvent> {
+  const { fromId, group, consumer, blockMs = 5000, signal } = options;
+  const pattern = typeof thread === "object" && thread !== null ? thread.pattern : undefined;
+  const selector = pattern ?? thread;
+  if (!selector || typeof selector !== "string") {
+    throw new CheckpointValidationError(
+      `subscribe() requires a thread ID or { pattern }. Got: ${JSON.stringify(thread)}`,
+      { operation: "subscribe" }
+    );
+  }
+  if (typeof blockMs !== "number" || !Number.isInteger(blockMs) || blockMs <= 0) {
+    throw new CheckpointValidationError(
+      `subscribe() requires blockMs to be a positive integer. Got: ${blockMs}`,
+      { operation: "subscribe" }
+    );
+  }
+  if (group && !consumer) {
+    throw new CheckpointValidationError(
+      `subscribe() with a consumer group requires a consumer name. Got: ${consumer}`,
+      { operation: "subscribe" }
+    );
+  }
+
+  const key = context.keySchema.changeFeedKey();
+  const matcher = pattern !== undefined ? compileRedisPattern(pattern) : undefined;
+  const subscriber = context.connection.duplicate();
+  // Disconnecting interrupts a blocked read right away
+  const onAbort = () => subscriber.disconnect();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const events = group && consumer
+      ? readChangeFeedGroup(subscriber, key, group, consumer, blockMs, signal)
+      : readChangeFeed(subscriber, key, fromId, blockMs, signal);
+    for await (const event of events) {
+      if (matcher ? matcher.test(event.thread_id) : event.thread_id === thread) {
+        yield event;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return;
+    }
+    throw wrapRedisError(error, "Failed to read change feed", `Key: ${key}`, {
+      operation: "subscribe",
+      key,
+    });
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    subscriber.disconnect();
+  }
+}
+
+async function* readChangeFeed(
+  subscriber: Redis | Cluster,
+  key: string,
+  fromId: string | undefined,
+  blockMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<CheckpointEvent> {
+  // Resolve the end of the stream once, so events published between two
+  // reads are not skipped
+  let lastId =
+    fromId ?? (await subscriber.xrevrange(key, "+", "-", "COUNT", 1))[0]?.[0] ?? "0-0";
+  while (!signal?.aborted) {
+    const reply = await subscriber.xread(
+      "COUNT",
+      CHANGE_FEED_BATCH_SIZE,
+      "BLOCK",
+      blockMs,
+      "STREAMS",
+      key,
+      lastId
+    );
+    for (const [id, fields] of reply?.[0]?.[1] ?? []) {
+      lastId = id;
+      yield parseCheckpointEvent(id, fields);
+    }
+  }
+}
+
+async function* readChangeFeedGroup(
+  subscriber: Redis | Cluster,
+  key: string,
+  group: string,
+  consumer: string,
+  blockMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<CheckpointEvent> {
+  try {
+    await subscriber.xgroup("CREATE", key, group, "$", "MKSTREAM");
+  } catch (error) {
+    // Another consumer created the group first
+    if (!(error instanceof Error && error.message.startsWith("BUSYGROUP"))) {
+      throw error;
+    }
+  }
+
+  // Events delivered to this consumer before a restart but never
+  // acknowledged are read again first
+  let pending = true;
+  while (!signal?.aborted) {
+    const reply = pending
+      ? await subscriber.xreadgroup(
+          "GROUP", group, consumer,
+          "COUNT", CHANGE_FEED_BATCH_SIZE,
+          "STREAMS", key, "0"
+        )
+      : await subscriber.xreadgroup(
+          "GROUP", group, consumer,
+          "COUNT", CHANGE_FEED_BATCH_SIZE,
+          "BLOCK", blockMs,
+          "STREAMS", key, ">"
+        );
+    const entries = (reply as [string, [string, string[] | null][]][] | null)?.[0]?.[1] ?? [];
+    if (pending && entries.length === 0) {
+      pending = false;
+      continue;
+    }
+    for (const [id, fields] of entries) {
+      // Pending entries trimmed from the stream come back without fields
+      if (fields) {
+        yield parseCheckpointEvent(id, fields);
+      }
+      await subscriber.xack(key, group, id);
+    }
+  }
+}
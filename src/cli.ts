@@ -0,0 +1,397 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import process from "node:process";
+import { Readable, type Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { parseArgs } from "node:util";
+import { Redis } from "ioredis";
+
+import { RedisSaver } from "./redis-saver.js";
+import { execTransaction } from "./utils.js";
+
+const USAGE = `Usage: checkpoint-redis [options] <command> [arguments]
+
+Commands:
+  threads                     List threads, most recently updated first
+  list <thread>               List the checkpoints of a thread, newest first
+  show <thread> [checkpoint]  Print a checkpoint, the latest one by default
+  delete <thread>             Delete a thread with all its checkpoints and writes
+  prune <thread>              Remove checkpoints exceeding --max-checkpoints or --max-age
+  export <thread>             Write a thread as NDJSON to --file or stdout
+  import                      Load a thread exported as NDJSON from --file or stdin
+  stats [thread]              Count threads, checkpoints and writes
+
+Options:
+  --url <url>                 Redis URL (default: redis://localhost:6379)
+  --prefix <prefix>           Key prefix the saver was configured with
+  --ns <namespace>            Checkpoint namespace for list and show
+  --limit <n>                 Maximum number of threads or checkpoints
+  --cursor <cursor>           Cursor printed by a previous threads command
+  --order-by <field>          Order threads by updated_at (default) or created_at
+  --max-checkpoints <n>       Checkpoints to keep per namespace when pruning
+  --max-age <seconds>         Age after which checkpoints are pruned
+  --file <path>               File to export to or import from
+  --thread <id>               Thread to import into (default: the exported thread)
+  --overwrite                 Replace existing records when importing
+  --json                      Print JSON for scripting
+  -h, --help                  Show this help
+`;
+
+const OPTIONS = {
+  url: { type: "string", default: "redis://localhost:6379" },
+  prefix: { type: "string" },
+  ns: { type: "string" },
+  limit: { type: "string" },
+  cursor: { type: "string" },
+  "order-by": { type: "string" },
+  "max-checkpoints": { type: "string" },
+  "max-age": { type: "string" },
+  file: { type: "string" },
+  thread: { type: "string" },
+  overwrite: { type: "boolean", default: false },
+  json: { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+} as const;
+
+// Threads counted at a time by the stats command
+const STATS_BATCH_SIZE = 100;
+
+type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+type ThreadCounts = {
+  checkpoints: number;
+  writes: number;
+  namespaces: Record<string, number>; // Checkpoints per namespace
+};
+
+type CheckpointSummary = {
+  checkpoint_ns?: string;
+  checkpoint_id: string;
+  parent_checkpoint_id?: string;
+  ts: string;
+  source?: string;
+  step?: number;
+};
+
+export type CliOptions = {
+  connection?: Redis; // Used instead of connecting to --url
+  stdin?: Readable;
+  stdout?: Writable;
+  stderr?: Writable;
+};
+
+// Raised for invalid arguments, which print the usage
+class CliUsageError extends Error {}
+
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parsePositiveInteger(option: string, value?: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new CliUsageError(`--${option} must be a positive integer. Got: ${value}`);
+  }
+  return number;
+}
+
+function requireArgument(name: string, value?: string): string {
+  if (!value) {
+    throw new CliUsageError(`Missing required argument: <${name}>`);
+  }
+  return value;
+}
+
+// Checkpoints may hold values JSON cannot represent as is
+function toJson(value: unknown, indent?: number): string {
+  return JSON.stringify(
+    value,
+    (_, item) => (typeof item === "bigint" ? item.toString() : item),
+    indent
+  );
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Counts the checkpoints and writes of a thread through its indexes instead
+ * of scanning the keyspace, reading the checkpoint indexes and the writes
+ * indexes in one pipeline each. Resolves with undefined for unknown threads.
+ */
+async function countThread(
+  saver: RedisSaver,
+  thread: string
+): Promise<ThreadCounts | undefined> {
+  const connection = saver.connection as Redis;
+  const { keySchema } = saver;
+  const namespaces = await connection.smembers(keySchema.namespacesKey(thread));
+  if (namespaces.length === 0) {
+    return undefined;
+  }
+
+  const indexes = connection.pipeline();
+  for (const ns of namespaces) {
+    indexes.zrange(keySchema.checkpointIndexKey(thread, ns), 0, -1);
+  }
+  const checkpointIds = (await execTransaction(indexes)) as string[][];
+
+  const writesIndexes = connection.pipeline();
+  for (const [i, ns] of namespaces.entries()) {
+    for (const id of checkpointIds[i]) {
+      writesIndexes.scard(keySchema.writesIndexKey(thread, ns, id));
+    }
+  }
+  const writeCounts = (await execTransaction(writesIndexes)) as number[];
+
+  return {
+    checkpoints: checkpointIds.reduce((sum, ids) => sum + ids.length, 0),
+    writes: writeCounts.reduce((sum, count) => sum + count, 0),
+    namespaces: Object.fromEntries(namespaces.map((ns, i) => [ns, checkpointIds[i].length])),
+  };
+}
+
+/**
+ * Runs the `checkpoint-redis` command line tool and resolves with its exit
+ * code. Pass a `connection` to run it against an existing client.
+ */
+export async function runCli(
+  args: string[],
+  {
+    connection,
+    stdin = process.stdin,
+    stdout = process.stdout,
+    stderr = process.stderr,
+  }: CliOptions = {}
+): Promise<number> {
+  const print = (text: string) => stdout.write(`${text}\n`);
+  let client: Redis | undefined;
+
+  try {
+    const { values, positionals } = parseCliArgs(args);
+    const [command, ...commandArgs] = positionals;
+    if (values.help || !command) {
+      stdout.write(USAGE);
+      return values.help ? 0 : 2;
+    }
+
+    // Fail fast instead of queueing commands while Redis is unreachable
+    client =
+      connection ??
+      new Redis(values.url, { lazyConnect: true, maxRetriesPerRequest: 1 });
+    const saver = new RedisSaver({ connection: client, keyPrefix: values.prefix });
+    const output = (json: unknown, lines: () => string[]) => {
+      if (values.json) {
+        print(toJson(json));
+      } else {
+        lines().forEach(print);
+      }
+    };
+
+    await runCommand(saver, command, commandArgs, values, { stdin, stdout, output });
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  } finally {
+    if (client && client !== connection) {
+      client.disconnect();
+    }
+  }
+}
+
+async function runCommand(
+  saver: RedisSaver,
+  command: string,
+  [thread, checkpoint]: string[],
+  values: CliValues,
+  {
+    stdin,
+    stdout,
+    output,
+  }: {
+    stdin: Readable;
+    stdout: Writable;
+    output: (json: unknown, lines: () => string[]) => void;
+  }
+): Promise<void> {
+  const limit = parsePositiveInteger("limit", values.limit);
+
+  switch (command) {
+    case "threads": {
+      const orderBy = values["order-by"];
+      if (orderBy !== undefined && orderBy !== "updated_at" && orderBy !== "created_at") {
+        throw new CliUsageError(`--order-by must be updated_at or created_at. Got: ${orderBy}`);
+      }
+      const page = await saver.listThreads({ cursor: values.cursor, limit, orderBy });
+      output(page, () => [
+        ...page.threads.map(
+          (info) =>
+            `${info.thread_id}  ${info.checkpoint_count} checkpoints  ` +
+            `updated ${formatTime(info.updated_at)}  created ${formatTime(info.created_at)}`
+        ),
+        ...(page.nextCursor ? [`More threads: --cursor ${page.nextCursor}`] : []),
+      ]);
+      return;
+    }
+
+    case "list": {
+      const threadId = requireArgument("thread", thread);
+      const checkpoints: CheckpointSummary[] = [];
+      for await (const tuple of saver.list(
+        { configurable: { thread_id: threadId, checkpoint_ns: values.ns } },
+        { limit }
+      )) {
+        checkpoints.push({
+          checkpoint_ns: tuple.config.configurable?.checkpoint_ns,
+          checkpoint_id: tuple.checkpoint.id,
+          parent_checkpoint_id: tuple.parentConfig?.configurable?.checkpoint_id,
+          ts: tuple.checkpoint.ts,
+          source: tuple.metadata?.source,
+          step: tuple.metadata?.step,
+        });
+      }
+      output(checkpoints, () =>
+        checkpoints.map(
+          (item) =>
+            `${item.checkpoint_id}  ${item.ts}  ${item.source ?? "-"} step ${item.step ?? "-"}` +
+            (item.checkpoint_ns ? `  ns ${item.checkpoint_ns}` : "")
+        )
+      );
+      return;
+    }
+
+    case "show": {
+      const threadId = requireArgument("thread", thread);
+      const tuple = await saver.getTuple({
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: values.ns ?? "",
+          ...(checkpoint && { checkpoint_id: checkpoint }),
+        },
+      });
+      if (!tuple) {
+        throw new Error(`Checkpoint not found. Thread: ${threadId}, Checkpoint: ${checkpoint ?? "latest"}`);
+      }
+      output(tuple, () => [toJson(tuple, 2)]);
+      return;
+    }
+
+    case "delete": {
+      const threadId = requireArgument("thread", thread);
+      await saver.deleteThread(threadId);
+      output({ thread_id: threadId, deleted: true }, () => [`Deleted thread ${threadId}`]);
+      return;
+    }
+
+    case "prune": {
+      const threadId = requireArgument("thread", thread);
+      const maxCheckpointsPerThread = parsePositiveInteger(
+        "max-checkpoints",
+        values["max-checkpoints"]
+      );
+      const maxAge = parsePositiveInteger("max-age", values["max-age"]);
+      if (maxCheckpointsPerThread === undefined && maxAge === undefined) {
+        throw new CliUsageError("prune requires --max-checkpoints or --max-age");
+      }
+      const removed = await saver.prune(threadId, { maxCheckpointsPerThread, maxAge });
+      output({ thread_id: threadId, removed }, () => [
+        `Removed ${removed} checkpoints from thread ${threadId}`,
+      ]);
+      return;
+    }
+
+    case "export": {
+      const threadId = requireArgument("thread", thread);
+      if (values.file) {
+        await pipeline(
+          Readable.from(saver.exportThread(threadId)),
+          createWriteStream(values.file)
+        );
+      } else {
+        for await (const line of saver.exportThread(threadId)) {
+          stdout.write(line);
+        }
+      }
+      return;
+    }
+
+    case "import": {
+      const result = await saver.importThread(
+        values.file ? createReadStream(values.file) : stdin,
+        {
+          threadId: values.thread,
+          onConflict: values.overwrite ? "overwrite" : "skip",
+        }
+      );
+      output(result, () => [
+        `Imported ${result.checkpoints} checkpoints and ${result.writes} writes ` +
+          `into thread ${result.thread_id}, skipped ${result.skipped} existing records`,
+      ]);
+      return;
+    }
+
+    case "stats": {
+      if (thread) {
+        const [info, counts] = await Promise.all([
+          saver.getThread(thread),
+          countThread(saver, thread),
+        ]);
+        if (!counts) {
+          throw new Error(`Thread not found: ${thread}`);
+        }
+        const stats = {
+          thread_id: thread,
+          ...counts,
+          ...(info && { created_at: info.created_at, updated_at: info.updated_at }),
+        };
+        output(stats, () => [
+          `Thread ${thread}: ${stats.checkpoints} checkpoints, ${stats.writes} writes`,
+          ...Object.entries(counts.namespaces).map(
+            ([ns, count]) => `  ns ${ns || '""'}: ${count} checkpoints`
+          ),
+        ]);
+        return;
+      }
+
+      // Totals are summed over the threads in the thread index, so no
+      // keyspace scan is needed
+      const connection = saver.connection as Redis;
+      const indexKey = saver.keySchema.threadIndexKey();
+      let threads = 0;
+      let checkpoints = 0;
+      let writes = 0;
+      for (let offset = 0; ; offset += STATS_BATCH_SIZE) {
+        const threadIds = await connection.zrange(indexKey, offset, offset + STATS_BATCH_SIZE - 1);
+        for (const counts of await Promise.all(threadIds.map((id) => countThread(saver, id)))) {
+          if (counts) {
+            threads += 1;
+            checkpoints += counts.checkpoints;
+            writes += counts.writes;
+          }
+        }
+        if (threadIds.length < STATS_BATCH_SIZE) {
+          break;
+        }
+      }
+      output({ threads, checkpoints, writes }, () => [
+        `${threads} threads, ${checkpoints} checkpoints, ${writes} writes`,
+      ]);
+      return;
+    }
+
+    default:
+      throw new CliUsageError(`Unknown command: ${command}`);
+  }
+}
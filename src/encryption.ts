@@ -0,0 +1,213 @@
+import { Buffer } from "node:buffer";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { SerializerProtocol } from "@langchain/langgraph-checkpoint";
+
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+
+export type EncryptionKey = {
+  id: string; // Stored with every record to find the key again on read
+  key: Uint8Array; // 32 bytes for AES-256
+};
+
+/**
+ * Supplies the keys used to encrypt new records and to decrypt existing
+ * ones. Implement it to load keys from a KMS or secret store.
+ */
+export interface EncryptionKeyProvider {
+  getCurrentKey(): EncryptionKey | Promise<EncryptionKey>;
+  getKey(id: string): Uint8Array | undefined | Promise<Uint8Array | undefined>;
+}
+
+/**
+ * Key provider backed by keys held in memory, e.g. loaded from environment
+ * variables. Keep retired keys in `keys` until every thread was rotated.
+ */
+export class StaticKeyProvider implements EncryptionKeyProvider {
+  keys: Record<string, Uint8Array>;
+  currentKeyId: string;
+
+  constructor({
+    keys,
+    currentKeyId,
+  }: {
+    keys: Record<string, Uint8Array>;
+    currentKeyId: string;
+  }) {
+    if (!keys[currentKeyId]) {
+      throw new CheckpointValidationError(
+        `Unknown current key ID: ${currentKeyId}. It must be one of: ${Object.keys(keys).join(", ")}`,
+        { operation: "StaticKeyProvider" }
+      );
+    }
+    this.keys = keys;
+    this.currentKeyId = currentKeyId;
+  }
+
+  getCurrentKey(): EncryptionKey {
+    return { id: this.currentKeyId, key: this.keys[this.currentKeyId] };
+  }
+
+  getKey(id: string): Uint8Array | undefined {
+    return this.keys[id];
+  }
+}
+
+const ENCRYPTED_TYPE_PREFIX = "encrypted:";
+const ENVELOPE_VERSION = 1;
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+type Envelope = {
+  keyId: string;
+  iv: Uint8Array;
+  tag: Uint8Array;
+  ciphertext: Uint8Array;
+};
+
+// Layout: version (1 byte), key ID length (1 byte), key ID, IV, auth tag,
+// ciphertext
+function encodeEnvelope({ keyId, iv, tag, ciphertext }: Envelope): Uint8Array {
+  const keyIdBytes = Buffer.from(keyId, "utf8");
+  if (keyIdBytes.length > 255) {
+    throw new Error(`Encryption key IDs must not exceed 255 bytes. Got: ${keyId}`);
+  }
+  return Buffer.concat([
+    Buffer.from([ENVELOPE_VERSION, keyIdBytes.length]),
+    keyIdBytes,
+    iv,
+    tag,
+    ciphertext,
+  ]);
+}
+
+function decodeEnvelope(data: Uint8Array | string): Envelope {
+  const bytes =
+    typeof data === "string"
+      ? Buffer.from(data, "binary")
+      : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (bytes[0] !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported encryption envelope version: ${bytes[0]}`);
+  }
+
+  const keyIdEnd = 2 + bytes[1];
+  const ivEnd = keyIdEnd + IV_LENGTH;
+  const tagEnd = ivEnd + TAG_LENGTH;
+  if (bytes.length < tagEnd) {
+    throw new Error("Encryption envelope is truncated");
+  }
+
+  return {
+    keyId: bytes.subarray(2, keyIdEnd).toString("utf8"),
+    iv: bytes.subarray(keyIdEnd, ivEnd),
+    tag: bytes.subarray(ivEnd, tagEnd),
+    ciphertext: bytes.subarray(tagEnd),
+  };
+}
+
+/**
+ * Wraps a serializer and encrypts its output with AES-256-GCM. The ID of the
+ * key is stored in every record, and records written without encryption are
+ * still read, so encryption can be enabled on existing data.
+ */
+export class EncryptedSerializer implements SerializerProtocol {
+  serde: SerializerProtocol;
+  keyProvider: EncryptionKeyProvider;
+
+  constructor(serde: SerializerProtocol, keyProvider: EncryptionKeyProvider) {
+    this.serde = serde;
+    this.keyProvider = keyProvider;
+  }
+
+  async dumpsTyped(data: unknown): Promise<[string, Uint8Array]> {
+    const [type, plaintext] = await this.serde.dumpsTyped(data);
+    return this.encrypt(type, plaintext);
+  }
+
+  async loadsTyped(type: string, data: Uint8Array | string): Promise<unknown> {
+    if (!type.startsWith(ENCRYPTED_TYPE_PREFIX)) {
+      return this.serde.loadsTyped(type, data);
+    }
+
+    const [innerType, plaintext] = await this.decrypt(type, data);
+    return this.serde.loadsTyped(innerType, plaintext);
+  }
+
+  /**
+   * Returns the ID of the key a record was encrypted with, or undefined if
+   * it is not encrypted.
+   */
+  getKeyId(type: string, data: Uint8Array | string): string | undefined {
+    return type.startsWith(ENCRYPTED_TYPE_PREFIX)
+      ? decodeEnvelope(data).keyId
+      : undefined;
+  }
+
+  /**
+   * Re-encrypts a record with the current key without deserializing it.
+   * Records that are not encrypted yet are encrypted.
+   */
+  async reencrypt(
+    type: string,
+    data: Uint8Array | string
+  ): Promise<[string, Uint8Array]> {
+    if (!type.startsWith(ENCRYPTED_TYPE_PREFIX)) {
+      const plaintext =
+        typeof data === "string" ? new TextEncoder().encode(data) : data;
+      return this.encrypt(type, plaintext);
+    }
+
+    const [innerType, plaintext] = await this.decrypt(type, data);
+    return this.encrypt(innerType, plaintext);
+  }
+
+  private async encrypt(
+    type: string,
+    plaintext: Uint8Array
+  ): Promise<[string, Uint8Array]> {
+    const { id, key } = await this.keyProvider.getCurrentKey();
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    // Bind the ciphertext to its type and key so neither can be swapped
+    cipher.setAAD(Buffer.from(`${id}:${type}`, "utf8"));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return [
+      `${ENCRYPTED_TYPE_PREFIX}${type}`,
+      encodeEnvelope({ keyId: id, iv, tag: cipher.getAuthTag(), ciphertext }),
+    ];
+  }
+
+  private async decrypt(
+    type: string,
+    data: Uint8Array | string
+  ): Promise<[string, Uint8Array]> {
+    const innerType = type.slice(ENCRYPTED_TYPE_PREFIX.length);
+    const { keyId, iv, tag, ciphertext } = decodeEnvelope(data);
+    const key = await this.keyProvider.getKey(keyId);
+    if (!key) {
+      throw new CheckpointSerializationError(
+        `Unknown encryption key: ${keyId}. Add it to the key provider to read records encrypted with it.`,
+        { operation: "decrypt" }
+      );
+    }
+
+    try {
+      const decipher = createDecipheriv(CIPHER, key, iv);
+      decipher.setAAD(Buffer.from(`${keyId}:${innerType}`, "utf8"));
+      decipher.setAuthTag(tag);
+      return [
+        innerType,
+        Buffer.concat([decipher.update(ciphertext), decipher.final()]),
+      ];
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to decrypt record with key: ${keyId}. The data or the key is invalid.`,
+        { cause: error, operation: "decrypt" }
+      );
+    }
+  }
+}
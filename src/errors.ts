@@ -0,0 +1,62 @@
+export type CheckpointErrorContext = {
+  cause?: unknown; // The underlying error
+  operation?: string; // Saver method that failed, e.g. "put"
+  thread_id?: string;
+  checkpoint_id?: string;
+  key?: string; // Redis key involved in the failure
+};
+
+/**
+ * Base class of every error raised by the saver. Catch a subclass to tell
+ * transient Redis failures apart from serialization bugs and bad input.
+ */
+export class RedisCheckpointError extends Error {
+  cause?: unknown;
+  operation?: string;
+  thread_id?: string;
+  checkpoint_id?: string;
+  key?: string;
+
+  constructor(
+    message: string,
+    { cause, operation, thread_id, checkpoint_id, key }: CheckpointErrorContext = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+    this.operation = operation;
+    this.thread_id = thread_id;
+    this.checkpoint_id = checkpoint_id;
+    this.key = key;
+  }
+}
+
+/**
+ * A Redis command or transaction failed. These are usually transient and
+ * safe to retry.
+ */
+export class RedisCheckpointConnectionError extends RedisCheckpointError {}
+
+/**
+ * The circuit breaker rejected the call without contacting Redis, because
+ * recent calls kept failing.
+ */
+export class RedisCheckpointCircuitOpenError extends RedisCheckpointConnectionError {}
+
+/**
+ * A checkpoint, its metadata or a pending write could not be serialized or
+ * deserialized.
+ */
+export class CheckpointSerializationError extends RedisCheckpointError {}
+
+/**
+ * The saver was called with invalid arguments or configuration.
+ */
+export class CheckpointValidationError extends RedisCheckpointError {}
+
+/**
+ * Another writer got there first: the parent passed to put() is no longer
+ * the latest checkpoint of its namespace, or a thread lease is held by
+ * someone else. Reload the latest checkpoint before trying again.
+ */
+export class CheckpointConflictError extends RedisCheckpointError {}
@@ -1 +1,47 @@
 export * from "./redis-saver.js";
+export * from "./errors.js";
+export * from "./retry.js";
+export * from "./encryption.js";
+export * from "./store.js";
+export type { ReadYourWritesOptions } from "./saver-context.js";
+export type {
+  CopyThreadOptions,
+  ListThreadsOptions,
+  ThreadInfo,
+  ThreadPage,
+} from "./threads.js";
+export type {
+  ChangeFeedOptions,
+  CheckpointEvent,
+  SubscribeOptions,
+} from "./change-feed.js";
+export type { ThreadLease, ThreadLeaseOptions } from "./leases.js";
+export type {
+  IntegrityIssue,
+  IntegrityIssueType,
+  VerifyOptions,
+  VerifyReport,
+} from "./maintenance.js";
+export type { RetentionOptions } from "./retention.js";
+export type {
+  ImportThreadOptions,
+  ImportThreadResult,
+} from "./thread-export.js";
+export type {
+  InstrumentationAttributes,
+  InstrumentationCounter,
+  InstrumentationHistogram,
+  InstrumentationMeter,
+  InstrumentationOptions,
+  InstrumentationSpan,
+  InstrumentationTracer,
+  RedisSaverEvent,
+} from "./instrumentation.js";
+export {
+  createRedisKeySchema,
+  createRedisStoreKeySchema,
+  type CompressionOptions,
+  type RedisCompressionCodec,
+  type RedisKeySchema,
+  type RedisStoreKeySchema,
+} from "./utils.js";
@@ -0,0 +1,257 @@
+import { performance } from "node:perf_hooks";
+
+export type InstrumentationAttributes = Record<string, string | number | boolean>;
+
+// The interfaces below are the subset of the OpenTelemetry API used by the
+// saver, so `trace.getTracer()` and `metrics.getMeter()` can be passed as is
+
+export interface InstrumentationSpan {
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+export interface InstrumentationTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: InstrumentationAttributes }
+  ): InstrumentationSpan;
+}
+
+export interface InstrumentationHistogram {
+  record(value: number, attributes?: InstrumentationAttributes): void;
+}
+
+export interface InstrumentationCounter {
+  add(value: number, attributes?: InstrumentationAttributes): void;
+}
+
+export interface InstrumentationMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): InstrumentationHistogram;
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): InstrumentationCounter;
+}
+
+export type RedisSaverEvent =
+  // A public method finished, successfully or with `error`
+  | {
+      type: "operation";
+      operation: string;
+      attributes: InstrumentationAttributes;
+      durationMs: number;
+      error?: unknown;
+    }
+  // Serialized bytes written or read by an operation
+  | {
+      type: "payload";
+      operation: string;
+      attributes: InstrumentationAttributes;
+      bytes: number;
+    }
+  // getTuple() found the requested checkpoint or not
+  | {
+      type: "cache";
+      operation: string;
+      attributes: InstrumentationAttributes;
+      hit: boolean;
+    };
+
+export type InstrumentationOptions = {
+  tracer?: InstrumentationTracer; // Receives a span per public method call
+  meter?: InstrumentationMeter; // Receives latency, payload, error and cache hit metrics
+  onEvent?: (event: RedisSaverEvent) => void; // Called for every measurement
+};
+
+// OpenTelemetry SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Records spans, metrics and events for the saver. Without any tracer,
+ * meter or event hook, operations run without measuring anything.
+ */
+export class RedisSaverInstrumentation {
+  private tracer?: InstrumentationTracer;
+  private onEvent?: (event: RedisSaverEvent) => void;
+  private duration?: InstrumentationHistogram;
+  private payloadSize?: InstrumentationHistogram;
+  private errors?: InstrumentationCounter;
+  private cacheHits?: InstrumentationCounter;
+  private cacheMisses?: InstrumentationCounter;
+
+  enabled: boolean;
+
+  constructor({ tracer, meter, onEvent }: InstrumentationOptions = {}) {
+    this.tracer = tracer;
+    this.onEvent = onEvent;
+    this.enabled = Boolean(tracer || meter || onEvent);
+
+    if (meter) {
+      this.duration = meter.createHistogram("checkpoint_redis.operation.duration", {
+        description: "Duration of RedisSaver operations",
+        unit: "ms",
+      });
+      this.payloadSize = meter.createHistogram("checkpoint_redis.payload.size", {
+        description: "Size of serialized checkpoints and writes",
+        unit: "By",
+      });
+      this.errors = meter.createCounter("checkpoint_redis.errors", {
+        description: "Failed RedisSaver operations",
+      });
+      this.cacheHits = meter.createCounter("checkpoint_redis.cache.hits", {
+        description: "getTuple() calls that found a checkpoint",
+      });
+      this.cacheMisses = meter.createCounter("checkpoint_redis.cache.misses", {
+        description: "getTuple() calls that found no checkpoint",
+      });
+    }
+  }
+
+  /**
+   * Runs an operation inside a span and records its duration and errors.
+   * Span attributes include the thread and checkpoint, while metrics are
+   * only tagged with the operation to keep their cardinality low.
+   */
+  async trace<T>(
+    operation: string,
+    attributes: Record<string, unknown>,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!this.enabled) {
+      return fn();
+    }
+
+    const measurement = this.start(operation, attributes);
+    try {
+      const result = await fn();
+      measurement.end();
+      return result;
+    } catch (error) {
+      measurement.end(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Same as `trace()` for async generators. The span covers the whole
+   * iteration, until the generator finishes or the consumer stops early.
+   */
+  async *traceGenerator<T>(
+    operation: string,
+    attributes: Record<string, unknown>,
+    fn: () => AsyncGenerator<T>
+  ): AsyncGenerator<T> {
+    if (!this.enabled) {
+      yield* fn();
+      return;
+    }
+
+    const measurement = this.start(operation, attributes);
+    let error: unknown;
+    try {
+      yield* fn();
+    } catch (e) {
+      error = e;
+      throw e;
+    } finally {
+      measurement.end(error);
+    }
+  }
+
+  recordPayload(
+    operation: string,
+    attributes: Record<string, unknown>,
+    bytes: number
+  ): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.payloadSize?.record(bytes, { operation });
+    this.emit({
+      type: "payload",
+      operation,
+      attributes: toAttributes(attributes),
+      bytes,
+    });
+  }
+
+  recordCacheLookup(
+    operation: string,
+    attributes: Record<string, unknown>,
+    hit: boolean
+  ): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    (hit ? this.cacheHits : this.cacheMisses)?.add(1, { operation });
+    this.emit({
+      type: "cache",
+      operation,
+      attributes: toAttributes(attributes),
+      hit,
+    });
+  }
+
+  private start(operation: string, attributes: Record<string, unknown>) {
+    const spanAttributes = toAttributes(attributes);
+    const span = this.tracer?.startSpan(`RedisSaver.${operation}`, {
+      attributes: spanAttributes,
+    });
+    const startedAt = performance.now();
+
+    return {
+      end: (error?: unknown) => {
+        const durationMs = performance.now() - startedAt;
+        const status = error === undefined ? "ok" : "error";
+
+        if (error !== undefined) {
+          const exception =
+            error instanceof Error ? error : new Error(String(error));
+          span?.recordException(exception);
+          span?.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+          this.errors?.add(1, { operation, "error.type": exception.name });
+        }
+        span?.end();
+
+        this.duration?.record(durationMs, { operation, status });
+        this.emit({
+          type: "operation",
+          operation,
+          attributes: spanAttributes,
+          durationMs,
+          ...(error !== undefined && { error }),
+        });
+      },
+    };
+  }
+
+  private emit(event: RedisSaverEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch {
+      // A failing event hook must never fail the operation it observes
+    }
+  }
+}
+
+function toAttributes(
+  attributes: Record<string, unknown>
+): InstrumentationAttributes {
+  const result: InstrumentationAttributes = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,158 @@
+import { randomUUID } from "node:crypto";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import {
+  CheckpointConflictError,
+  CheckpointValidationError,
+} from "./errors.js";
+import { wrapRedisError } from "./utils.js";
+import { withSaverRetry, type RedisSaverContext } from "./saver-context.js";
+
+// Extends or releases a lease only while KEYS[1] still holds the token in
+// ARGV[1]. ARGV[2] is the new TTL in milliseconds when renewing.
+const RENEW_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Delay between attempts while waiting for a lease held by someone else
+const LEASE_RETRY_DELAY_MS = 50;
+
+export type ThreadLease = {
+  thread_id: string;
+  token: string; // Identifies the holder, required to renew or release
+  expires_at: number; // Time the lease lapses in milliseconds
+};
+
+export type ThreadLeaseOptions = {
+  ttlMs?: number; // Lease duration (default 30000)
+  waitMs?: number; // Time to wait for another holder to release it (default 0)
+};
+
+export async function acquireThreadLease(
+  context: RedisSaverContext,
+  threadId: string,
+  { ttlMs = 30000, waitMs = 0 }: ThreadLeaseOptions
+): Promise<ThreadLease> {
+  if (!threadId) {
+    throw new CheckpointValidationError(
+      "acquireThreadLease() requires a thread ID. Got: undefined",
+      { operation: "acquireThreadLease" }
+    );
+  }
+  for (const [option, value, min] of [["ttlMs", ttlMs, 1], ["waitMs", waitMs, 0]] as const) {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      throw new CheckpointValidationError(
+        `acquireThreadLease() requires ${option} to be an integer of at least ${min}. Got: ${value}`,
+        { operation: "acquireThreadLease", thread_id: threadId }
+      );
+    }
+  }
+
+  const key = context.keySchema.threadLeaseKey(threadId);
+  const token = randomUUID();
+  const deadline = Date.now() + waitMs;
+  try {
+    for (;;) {
+      const acquired = await withSaverRetry(context, () =>
+        context.connection.set(key, token, "PX", ttlMs, "NX")
+      );
+      if (acquired) {
+        return { thread_id: threadId, token, expires_at: Date.now() + ttlMs };
+      }
+      if (Date.now() + LEASE_RETRY_DELAY_MS > deadline) {
+        break;
+      }
+      await sleep(LEASE_RETRY_DELAY_MS);
+    }
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to acquire thread lease",
+      `Thread: ${threadId}`,
+      { operation: "acquireThreadLease", key, thread_id: threadId }
+    );
+  }
+  throw new CheckpointConflictError(
+    `Failed to acquire thread lease: it is held by someone else. Thread: ${threadId}`,
+    { operation: "acquireThreadLease", key, thread_id: threadId }
+  );
+}
+
+export async function renewThreadLease(
+  context: RedisSaverContext,
+  lease: ThreadLease,
+  ttlMs: number
+): Promise<ThreadLease> {
+  if (!lease?.thread_id || !lease.token) {
+    throw new CheckpointValidationError(
+      "renewThreadLease() requires a lease returned by acquireThreadLease(). Got: " +
+      JSON.stringify(lease),
+      { operation: "renewThreadLease" }
+    );
+  }
+  if (typeof ttlMs !== 'number' || !Number.isInteger(ttlMs) || ttlMs <= 0) {
+    throw new CheckpointValidationError(
+      `renewThreadLease() requires ttlMs to be a positive integer. Got: ${ttlMs}`,
+      { operation: "renewThreadLease", thread_id: lease.thread_id }
+    );
+  }
+
+  const key = context.keySchema.threadLeaseKey(lease.thread_id);
+  let renewed: unknown;
+  try {
+    renewed = await withSaverRetry(context, () =>
+      context.connection.eval(RENEW_LEASE_SCRIPT, 1, key, lease.token, ttlMs)
+    );
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to renew thread lease",
+      `Thread: ${lease.thread_id}`,
+      { operation: "renewThreadLease", key, thread_id: lease.thread_id }
+    );
+  }
+  if (!renewed) {
+    throw new CheckpointConflictError(
+      `Failed to renew thread lease: it has lapsed or was taken over. Thread: ${lease.thread_id}`,
+      { operation: "renewThreadLease", key, thread_id: lease.thread_id }
+    );
+  }
+  return { ...lease, expires_at: Date.now() + ttlMs };
+}
+
+export async function releaseThreadLease(
+  context: RedisSaverContext,
+  lease: ThreadLease
+): Promise<boolean> {
+  if (!lease?.thread_id || !lease.token) {
+    throw new CheckpointValidationError(
+      "releaseThreadLease() requires a lease returned by acquireThreadLease(). Got: " +
+      JSON.stringify(lease),
+      { operation: "releaseThreadLease" }
+    );
+  }
+
+  const key = context.keySchema.threadLeaseKey(lease.thread_id);
+  try {
+    const released = await withSaverRetry(context, () =>
+      context.connection.eval(RELEASE_LEASE_SCRIPT, 1, key, lease.token)
+    );
+    return released === 1;
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to release thread lease",
+      `Thread: ${lease.thread_id}`,
+      { operation: "releaseThreadLease", key, thread_id: lease.thread_id }
+    );
+  }
+}
@@ -0,0 +1,508 @@
+import type { Cluster, Redis } from "ioredis";
+
+import { EncryptedSerializer } from "./encryption.js";
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+import {
+  compressRedisBlob,
+  encodeRedisBlob,
+  execTransaction,
+  getCheckpointIdTimestamp,
+  loadWrites,
+  parseRedisCheckpointData,
+  readRedisBlob,
+  REDIS_BLOB_ENCODING,
+  wrapRedisError,
+  type RedisHashData,
+} from "./utils.js";
+import { SCAN_BATCH_SIZE, type RedisSaverContext } from "./saver-context.js";
+import { REMOVE_IF_SCORE_SCRIPT, threadExists } from "./threads.js";
+
+// Sets hash fields only if every field still holds its expected value. ARGV
+// holds (field, expected value, new value) triples, and missing fields are
+// compared as empty strings.
+const COMPARE_AND_SET_SCRIPT = `
+for i = 1, #ARGV, 3 do
+  if (redis.call('HGET', KEYS[1], ARGV[i]) or '') ~= ARGV[i + 1] then
+    return 0
+  end
+end
+for i = 1, #ARGV, 3 do
+  redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 2])
+end
+return 1
+`;
+
+// Blob, type and compression codec fields of each blob in a hash
+const CHECKPOINT_BLOB_FIELDS = [
+  ["checkpoint", "type", "compression"],
+  ["metadata", "metadata_type", "metadata_compression"],
+] as const;
+
+const WRITE_BLOB_FIELDS = [["value", "type", "compression"]] as const;
+
+export type IntegrityIssueType =
+  | "orphaned_write" // Write whose checkpoint no longer exists
+  | "dangling_parent" // Checkpoint whose parent no longer exists
+  | "undecodable_blob" // Checkpoint or write that cannot be deserialized
+  | "unindexed_checkpoint" // Checkpoint missing from the checkpoint index
+  | "unindexed_write" // Write missing from the writes index of its checkpoint
+  | "expired_thread"; // Thread index entry of a thread that no longer exists
+
+export type IntegrityIssue = {
+  type: IntegrityIssueType;
+  key: string;
+  thread_id: string;
+  checkpoint_ns?: string; // Unset for thread index entries
+  checkpoint_id?: string; // Unset for thread index entries
+  detail?: string; // Missing parent ID or deserialization error
+  repaired: boolean;
+};
+
+export type VerifyOptions = {
+  threadId?: string; // Limits the walk to a single thread
+  repair?: boolean; // Fixes or removes the records behind every issue
+};
+
+export type VerifyReport = {
+  checkpoints: number; // Checkpoint hashes walked
+  writes: number; // Write hashes walked
+  issues: IntegrityIssue[];
+};
+
+export async function verify(
+  context: RedisSaverContext,
+  { threadId, repair = false }: VerifyOptions
+): Promise<VerifyReport> {
+  const report: VerifyReport = { checkpoints: 0, writes: 0, issues: [] };
+
+  try {
+    // Checkpoints first, so writes of checkpoints removed by a repair are
+    // found as orphans in the second pass
+    for await (const keys of scanKeyBatches(context, 
+      context.keySchema.checkpointKeyPattern(threadId)
+    )) {
+      const issues = await Promise.all(
+        keys.map((key) => verifyCheckpoint(context, key, repair))
+      );
+      report.checkpoints += keys.length;
+      report.issues.push(...issues.flat());
+    }
+
+    for await (const keys of scanKeyBatches(context, 
+      context.keySchema.writesKeyPattern(threadId)
+    )) {
+      const issues = await Promise.all(
+        keys.map((key) => verifyWrite(context, key, repair))
+      );
+      report.writes += keys.length;
+      report.issues.push(...issues.flat());
+    }
+
+    // Thread index entries last, since repaired checkpoints register
+    // their thread
+    for (const indexKey of [
+      context.keySchema.threadIndexKey(),
+      context.keySchema.threadCreatedIndexKey(),
+    ]) {
+      for await (const entries of scanThreadIndex(context, indexKey, threadId)) {
+        const issues = await Promise.all(
+          entries.map(([id, score]) =>
+            verifyThreadIndexEntry(context, indexKey, id, score, repair)
+          )
+        );
+        report.issues.push(...issues.flat());
+      }
+    }
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to verify checkpoints",
+      `Thread: ${threadId ?? "*"}`,
+      { operation: "verify", thread_id: threadId }
+    );
+  }
+
+  return report;
+}
+
+export async function reencryptThread(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<number> {
+  if (!threadId) {
+    throw new CheckpointValidationError(
+      "reencryptThread() requires a valid threadId. Got: undefined",
+      { operation: "reencryptThread" }
+    );
+  }
+  const serde = context.serde;
+  if (!(serde instanceof EncryptedSerializer)) {
+    throw new CheckpointValidationError(
+      "reencryptThread() requires the RedisSaver to use an EncryptedSerializer.",
+      { operation: "reencryptThread", thread_id: threadId }
+    );
+  }
+
+  try {
+    const { id: currentKeyId } = await serde.keyProvider.getCurrentKey();
+    const namespaces = await context.connection.smembers(
+      context.keySchema.namespacesKey(threadId)
+    );
+
+    let rewritten = 0;
+    for (const checkpointNs of namespaces) {
+      const ids = await context.connection.zrange(
+        context.keySchema.checkpointIndexKey(threadId, checkpointNs),
+        0,
+        -1
+      );
+
+      for (const id of ids) {
+        const writeKeys = await context.connection.smembers(
+          context.keySchema.writesIndexKey(threadId, checkpointNs, id)
+        );
+        const records = [
+          [
+            context.keySchema.checkpointKey(threadId, checkpointNs, id),
+            CHECKPOINT_BLOB_FIELDS,
+          ] as const,
+          ...writeKeys.map((key) => [key, WRITE_BLOB_FIELDS] as const),
+        ];
+
+        for (const [key, fields] of records) {
+          if (await reencryptRecord(context, serde, currentKeyId, key, fields)) {
+            rewritten += 1;
+          }
+        }
+      }
+    }
+
+    return rewritten;
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to re-encrypt thread",
+      `Thread: ${threadId}`,
+      { operation: "reencryptThread", thread_id: threadId }
+    );
+  }
+}
+
+/**
+ * Re-encrypts the blobs of one hash. Returns false if nothing had to
+ * change, or if the record was rewritten concurrently, which already
+ * encrypted it with the current key.
+ */
+async function reencryptRecord(
+  context: RedisSaverContext,
+  serde: EncryptedSerializer,
+  currentKeyId: string,
+  key: string,
+  fields: readonly (readonly [string, string, string])[]
+): Promise<boolean> {
+  const data = await context.connection.hgetallBuffer(key);
+
+  // Legacy comma-separated records are left as they are
+  if (data.encoding?.toString() !== REDIS_BLOB_ENCODING) {
+    return false;
+  }
+
+  const updates: RedisHashData[string][] = [];
+  for (const [valueField, typeField, codecField] of fields) {
+    const value = data[valueField];
+    const type = data[typeField]?.toString();
+    if (!value || type === undefined) {
+      return false;
+    }
+
+    const blob = await readRedisBlob(value, data.encoding, data[codecField]);
+    if (serde.getKeyId(type, blob) === currentKeyId) {
+      continue;
+    }
+
+    let encrypted: [string, Uint8Array];
+    try {
+      encrypted = await serde.reencrypt(type, blob);
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to re-encrypt record: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Key: ${key}`,
+        { cause: error, operation: "reencryptThread", key }
+      );
+    }
+    const [stored, codec] = await compressRedisBlob(encrypted[1], context.compression);
+    updates.push(
+      valueField, value, encodeRedisBlob(stored),
+      typeField, type, encrypted[0],
+      codecField, data[codecField]?.toString() ?? "", codec ?? ""
+    );
+  }
+
+  if (updates.length === 0) {
+    return false;
+  }
+  return (await context.connection.eval(COMPARE_AND_SET_SCRIPT, 1, key, ...updates)) === 1;
+}
+
+async function verifyCheckpoint(
+  context: RedisSaverContext,
+  key: string,
+  repair: boolean
+): Promise<IntegrityIssue[]> {
+  let parsedKey: Record<string, string>;
+  try {
+    parsedKey = context.keySchema.parseCheckpointKey(key);
+  } catch {
+    // Not one of our keys, e.g. written with another key schema
+    return [];
+  }
+
+  const { thread_id, checkpoint_ns, checkpoint_id } = parsedKey;
+  const issue = (type: IntegrityIssueType, detail?: string): IntegrityIssue => ({
+    type,
+    key,
+    thread_id,
+    checkpoint_ns,
+    checkpoint_id,
+    ...(detail !== undefined && { detail }),
+    repaired: repair,
+  });
+
+  const data = await context.connection.hgetallBuffer(key);
+
+  // The key expired or was deleted since it was scanned
+  if (Object.keys(data).length === 0) {
+    return [];
+  }
+
+  const indexKey = context.keySchema.checkpointIndexKey(thread_id, checkpoint_ns);
+
+  try {
+    if (!data.checkpoint || !data.metadata) {
+      throw new Error("Missing checkpoint or metadata field");
+    }
+    await parseRedisCheckpointData(
+      context.serde,
+      key,
+      data,
+      undefined,
+      context.keySchema.parseCheckpointKey
+    );
+  } catch (error) {
+    if (repair) {
+      await execTransaction(
+        context.connection
+          .multi()
+          .zrem(indexKey, checkpoint_id)
+          .del(
+            key,
+            context.keySchema.writesIndexKey(thread_id, checkpoint_ns, checkpoint_id)
+          )
+      );
+    }
+    return [
+      issue(
+        "undecodable_blob",
+        error instanceof Error ? error.message : String(error)
+      ),
+    ];
+  }
+
+  const issues: IntegrityIssue[] = [];
+  const parentId = data.parent_checkpoint_id?.toString();
+  const [score, parentExists] = await Promise.all([
+    context.connection.zscore(indexKey, checkpoint_id),
+    parentId
+      ? context.connection.exists(
+          context.keySchema.checkpointKey(thread_id, checkpoint_ns, parentId)
+        )
+      : 1,
+  ]);
+
+  if (score === null) {
+    issues.push(issue("unindexed_checkpoint"));
+    if (repair) {
+      const timestamp = getCheckpointIdTimestamp(checkpoint_id) ?? Date.now();
+      const threadKey = context.keySchema.threadKey(thread_id);
+      await execTransaction(
+        context.connection
+          .multi()
+          .zadd(indexKey, 0, checkpoint_id)
+          .sadd(context.keySchema.namespacesKey(thread_id), checkpoint_ns)
+          .hsetnx(threadKey, "created_at", timestamp)
+          .hsetnx(threadKey, "updated_at", timestamp)
+      );
+      // Only add missing threads, since the score of indexed ones reflects
+      // their latest put()
+      await context.connection.zadd(context.keySchema.threadIndexKey(), "NX", timestamp, thread_id);
+      await context.connection.zadd(
+        context.keySchema.threadCreatedIndexKey(),
+        "NX",
+        timestamp,
+        thread_id
+      );
+    }
+  }
+
+  if (parentId && parentExists === 0) {
+    issues.push(issue("dangling_parent", parentId));
+    if (repair) {
+      await context.connection.hset(key, "parent_checkpoint_id", "");
+    }
+  }
+
+  return issues;
+}
+
+async function verifyThreadIndexEntry(
+  context: RedisSaverContext,
+  indexKey: string,
+  threadId: string,
+  score: string,
+  repair: boolean
+): Promise<IntegrityIssue[]> {
+  if (await threadExists(context, threadId)) {
+    return [];
+  }
+  if (repair) {
+    await context.connection.eval(REMOVE_IF_SCORE_SCRIPT, 1, indexKey, threadId, score);
+  }
+  return [
+    { type: "expired_thread", key: indexKey, thread_id: threadId, repaired: repair },
+  ];
+}
+
+async function verifyWrite(
+  context: RedisSaverContext,
+  key: string,
+  repair: boolean
+): Promise<IntegrityIssue[]> {
+  let parsedKey: Record<string, string>;
+  try {
+    parsedKey = context.keySchema.parseWritesKey(key);
+  } catch {
+    // Not one of our keys, e.g. written with another key schema
+    return [];
+  }
+
+  const { thread_id, checkpoint_ns, checkpoint_id, task_id, idx } = parsedKey;
+  const issue = (type: IntegrityIssueType, detail?: string): IntegrityIssue => ({
+    type,
+    key,
+    thread_id,
+    checkpoint_ns,
+    checkpoint_id,
+    ...(detail !== undefined && { detail }),
+    repaired: repair,
+  });
+
+  const writesIndexKey = context.keySchema.writesIndexKey(
+    thread_id,
+    checkpoint_ns,
+    checkpoint_id
+  );
+  const remove = () =>
+    execTransaction(
+      context.connection.multi().del(key).srem(writesIndexKey, key)
+    );
+
+  const [data, checkpointExists, indexed] = await Promise.all([
+    context.connection.hgetallBuffer(key),
+    context.connection.exists(
+      context.keySchema.checkpointKey(thread_id, checkpoint_ns, checkpoint_id)
+    ),
+    context.connection.sismember(writesIndexKey, key),
+  ]);
+
+  // The key expired or was deleted since it was scanned
+  if (Object.keys(data).length === 0) {
+    return [];
+  }
+
+  if (checkpointExists === 0) {
+    if (repair) {
+      await remove();
+    }
+    return [issue("orphaned_write")];
+  }
+
+  try {
+    if (!data.value) {
+      throw new Error("Missing value field");
+    }
+    await loadWrites(context.serde, { [`${task_id},${idx}`]: data });
+  } catch (error) {
+    if (repair) {
+      await remove();
+    }
+    return [
+      issue(
+        "undecodable_blob",
+        error instanceof Error ? error.message : String(error)
+      ),
+    ];
+  }
+
+  if (indexed === 0) {
+    if (repair) {
+      await context.connection.sadd(writesIndexKey, key);
+    }
+    return [issue("unindexed_write")];
+  }
+
+  return [];
+}
+
+/**
+ * Yields the keys matching a glob pattern one SCAN batch at a time. In
+ * cluster mode the scan fans out across all master nodes.
+ */
+async function* scanKeyBatches(
+  context: RedisSaverContext,
+  pattern: string
+): AsyncGenerator<string[]> {
+  const nodes = context.isCluster
+    ? (context.connection as Cluster).nodes("master")
+    : [context.connection as Redis];
+
+  for (const node of nodes) {
+    const stream = node.scanStream({ match: pattern, count: SCAN_BATCH_SIZE });
+    for await (const batch of stream) {
+      if ((batch as string[]).length > 0) {
+        yield batch as string[];
+      }
+    }
+  }
+}
+
+/**
+ * Yields `[threadId, score]` entries of a thread index in batches with
+ * ZSCAN, or only the entry of `threadId` when given.
+ */
+async function* scanThreadIndex(
+  context: RedisSaverContext,
+  indexKey: string,
+  threadId?: string
+): AsyncGenerator<[string, string][]> {
+  if (threadId !== undefined) {
+    const score = await context.connection.zscore(indexKey, threadId);
+    if (score !== null) {
+      yield [[threadId, score]];
+    }
+    return;
+  }
+
+  const stream = context.connection.zscanStream(indexKey, { count: SCAN_BATCH_SIZE });
+  for await (const batch of stream) {
+    const entries: [string, string][] = [];
+    for (let i = 0; i < (batch as string[]).length; i += 2) {
+      entries.push([(batch as string[])[i], (batch as string[])[i + 1]]);
+    }
+    if (entries.length > 0) {
+      yield entries;
+    }
+  }
+}
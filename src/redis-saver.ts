@@ -1,5 +1,5 @@
 import type { RunnableConfig } from "@langchain/core/runnables";
-import type { Redis } from "ioredis";
+import type { ChainableCommander, Cluster, Redis } from "ioredis";
 import {
   BaseCheckpointSaver,
   type Checkpoint,
@@ -11,61 +11,617 @@ import {
 } from "@langchain/langgraph-checkpoint";
 
 import {
-  makeRedisCheckpointKey,
-  makeRedisCheckpointWritesKey,
-  parseRedisCheckpointWritesKey,
-  filterKeys,
+  CheckpointConflictError,
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+import {
+  RedisSaverInstrumentation,
+  type InstrumentationOptions,
+} from "./instrumentation.js";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type RetryOptions,
+} from "./retry.js";
+import {
+  compressRedisBlob,
+  createRedisKeySchema,
   dumpWrites,
+  encodeRedisBlob,
+  execTransaction,
+  isRedisCompressionCodec,
   loadWrites,
+  matchesFilter,
   parseRedisCheckpointData,
-  parseRedisCheckpointKey,
+  REDIS_BLOB_ENCODING,
+  wrapRedisError,
+  type CompressionOptions,
+  type RedisHashData,
+  type RedisKeySchema,
 } from "./utils.js";
+import {
+  afterWrite,
+  getReadConnection,
+  getThreadKeys,
+  LIST_BATCH_SIZE,
+  withSaverRetry,
+  type ReadYourWritesOptions,
+} from "./saver-context.js";
+import {
+  copyThread,
+  deleteThread,
+  getThread,
+  listThreads,
+  type CopyThreadOptions,
+  type ListThreadsOptions,
+  type ThreadInfo,
+  type ThreadPage,
+} from "./threads.js";
+import {
+  CHANGE_FEED_MAX_LEN,
+  subscribe,
+  type ChangeFeedOptions,
+  type CheckpointEvent,
+  type SubscribeOptions,
+} from "./change-feed.js";
+import {
+  acquireThreadLease,
+  releaseThreadLease,
+  renewThreadLease,
+  type ThreadLease,
+  type ThreadLeaseOptions,
+} from "./leases.js";
+import {
+  reencryptThread,
+  verify,
+  type VerifyOptions,
+  type VerifyReport,
+} from "./maintenance.js";
+import { prune, pruneNamespace, type RetentionOptions } from "./retention.js";
+import {
+  exportThread,
+  importThread,
+  type ImportThreadOptions,
+  type ImportThreadResult,
+} from "./thread-export.js";
+
+// Saves a checkpoint with the same bookkeeping as put(), but only if its
+// parent is still the latest checkpoint of the namespace. KEYS holds the
+// checkpoint, index, namespaces and thread keys, followed by the thread
+// indexes and the change feed unless they live in another slot. ARGV holds
+// the expected parent ('' for none), the checkpoint ID, namespace, thread ID,
+// the current time, the TTL ('' for none), the thread metadata, the change
+// feed length ('' for none), the number of event arguments, the event and
+// the hash fields. A checkpoint that is already the latest counts as saved,
+// so retries succeed. The index, namespaces and thread keys only ever get a
+// longer expiry, and none once a checkpoint without a TTL is saved. Returns
+// whether it was saved and the latest checkpoint ID before the call.
+const PUT_IF_LATEST_SCRIPT = `
+local latest = redis.call('ZRANGE', KEYS[2], -1, -1)[1] or ''
+if latest ~= ARGV[1] and latest ~= ARGV[2] then
+  return {0, latest}
+end
+local persistent = {}
+for i = 2, 4 do
+  persistent[i] = redis.call('TTL', KEYS[i]) == -1
+end
+local fields = 10 + tonumber(ARGV[9])
+redis.call('HSET', KEYS[1], unpack(ARGV, fields))
+redis.call('ZADD', KEYS[2], 0, ARGV[2])
+redis.call('SADD', KEYS[3], ARGV[3])
+redis.call('HSETNX', KEYS[4], 'created_at', ARGV[5])
+redis.call('HSET', KEYS[4], 'updated_at', ARGV[5])
+if ARGV[7] ~= '' then
+  redis.call('HSET', KEYS[4], 'metadata', ARGV[7])
+end
+if KEYS[5] then
+  redis.call('ZADD', KEYS[5], ARGV[5], ARGV[4])
+  redis.call('ZADD', KEYS[6], 'NX', ARGV[5], ARGV[4])
+end
+if KEYS[7] then
+  redis.call('XADD', KEYS[7], 'MAXLEN', '~', ARGV[8], '*', unpack(ARGV, 10, fields - 1))
+end
+if ARGV[6] == '' then
+  redis.call('HDEL', KEYS[1], 'ttl')
+  for i = 1, 4 do
+    redis.call('PERSIST', KEYS[i])
+  end
+else
+  redis.call('EXPIRE', KEYS[1], ARGV[6])
+  for i = 2, 4 do
+    if not persistent[i] and redis.call('TTL', KEYS[i]) < tonumber(ARGV[6]) then
+      redis.call('EXPIRE', KEYS[i], ARGV[6])
+    end
+  end
+end
+return {1, latest}
+`;
+
+// Extends the expiry of KEYS to ARGV[1] seconds. Keys that expire later and
+// keys without an expiry are left as they are.
+const EXTEND_EXPIRY_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  local ttl = redis.call('TTL', key)
+  if ttl >= 0 and ttl < tonumber(ARGV[1]) then
+    redis.call('EXPIRE', key, ARGV[1])
+  end
+end
+return #KEYS
+`;
+
+type CheckpointIdCursor = {
+  checkpointNs: string;
+  ids: string[];
+  max: string;
+  done: boolean;
+};
 
 export type RedisSaverParams = {
-  connection: Redis;
+  connection: Redis | Cluster;
+  readConnection?: Redis | Cluster; // Replica used by getTuple() and list()
+  readYourWrites?: ReadYourWritesOptions; // Consistency for reads after writes
   ttl?: number; // TTL in seconds for checkpoint keys
+  refreshOnRead?: boolean; // Extends the TTL of a thread when it is read or receives writes
+  retention?: RetentionOptions; // Prunes old checkpoints on every put()
+  optimisticConcurrency?: boolean; // Rejects put() when its parent is no longer the latest checkpoint
+  changeFeed?: ChangeFeedOptions; // Publishes put() and putWrites() events to a stream
+  retry?: RetryOptions; // Retries Redis operations that fail with transient errors
+  circuitBreaker?: CircuitBreakerOptions; // Fails fast while Redis keeps failing
+  instrumentation?: InstrumentationOptions; // Tracer, meter or event hook for spans and metrics
+  compression?: CompressionOptions; // Compresses large blobs with gzip, brotli or deflate
+  keyPrefix?: string; // Prepended to every key, e.g. "myapp:prod"
+  keySchema?: Partial<RedisKeySchema>; // Overrides how keys are built and parsed
 };
 
 export class RedisSaver extends BaseCheckpointSaver {
-  connection: Redis;
+  connection: Redis | Cluster;
+  readConnection: Redis | Cluster;
+  readYourWrites?: ReadYourWritesOptions;
   ttl?: number;
+  refreshOnRead: boolean;
+  retention?: RetentionOptions;
+  optimisticConcurrency: boolean;
+  changeFeed?: ChangeFeedOptions;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  instrumentation: RedisSaverInstrumentation;
+  compression?: CompressionOptions;
+  keySchema: RedisKeySchema;
+  isCluster: boolean;
 
-  constructor({ connection, ttl }: RedisSaverParams, serde?: SerializerProtocol) {
+  // Time of the latest write per thread, while its reads go to the primary
+  readonly recentWrites = new Map<string, number>();
+
+  constructor(
+    {
+      connection,
+      readConnection,
+      readYourWrites,
+      ttl,
+      refreshOnRead = false,
+      retention,
+      optimisticConcurrency = false,
+      changeFeed,
+      retry,
+      circuitBreaker,
+      instrumentation,
+      compression,
+      keyPrefix,
+      keySchema,
+    }: RedisSaverParams,
+    serde?: SerializerProtocol
+  ) {
     super(serde);
     
     // Validate required parameters
     if (!connection) {
-      throw new Error("RedisSaver requires a valid Redis connection. Got: undefined");
+      throw new CheckpointValidationError(
+        "RedisSaver requires a valid Redis connection. Got: undefined",
+        { operation: "constructor" }
+      );
     }
     
     // Validate TTL parameter
     if (ttl !== undefined) {
       if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0) {
-        throw new Error(`Invalid TTL value: ${ttl}. TTL must be a positive integer (seconds).`);
+        throw new CheckpointValidationError(
+          `Invalid TTL value: ${ttl}. TTL must be a positive integer (seconds).`,
+          { operation: "constructor" }
+        );
       }
     }
     
+    // Validate retention parameter
+    for (const [option, value] of Object.entries(retention ?? {})) {
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value <= 0)) {
+        throw new CheckpointValidationError(
+          `Invalid retention ${option} value: ${value}. It must be a positive integer.`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
+    // Validate retry, circuit breaker and change feed parameters
+    for (const [option, value] of [
+      ["retry maxAttempts", retry?.maxAttempts],
+      ["circuitBreaker failureThreshold", circuitBreaker?.failureThreshold],
+      ["changeFeed maxLen", changeFeed?.maxLen],
+    ] as const) {
+      if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value <= 0)) {
+        throw new CheckpointValidationError(
+          `Invalid ${option} value: ${value}. It must be a positive integer.`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
+    // Validate compression parameter
+    if (compression) {
+      if (!isRedisCompressionCodec(compression.codec)) {
+        throw new CheckpointValidationError(
+          `Invalid compression codec: ${compression.codec}. Expected "gzip", "brotli" or "deflate".`,
+          { operation: "constructor" }
+        );
+      }
+      const { threshold } = compression;
+      if (threshold !== undefined && (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < 0)) {
+        throw new CheckpointValidationError(
+          `Invalid compression threshold value: ${threshold}. It must be a non-negative integer (bytes).`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
+    // In cluster mode keys of one thread share a hash tag, so per-thread
+    // transactions and multi-key commands stay on a single slot
+    const isCluster = "isCluster" in connection && connection.isCluster;
+
+    // Validate read-your-writes parameter
+    if (readYourWrites) {
+      if (readYourWrites.strategy !== "primary" && readYourWrites.strategy !== "wait") {
+        throw new CheckpointValidationError(
+          `Invalid readYourWrites strategy: ${(readYourWrites as { strategy: unknown }).strategy}. Expected "primary" or "wait".`,
+          { operation: "constructor" }
+        );
+      }
+      if (readYourWrites.strategy === "wait" && isCluster) {
+        throw new CheckpointValidationError(
+          `The "wait" readYourWrites strategy is not supported for Redis Cluster connections. Use "primary" instead.`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
     this.connection = connection;
+    this.readConnection = readConnection ?? connection;
+    this.readYourWrites = readYourWrites;
     this.ttl = ttl;
+    this.refreshOnRead = refreshOnRead;
+    this.retention = retention;
+    this.optimisticConcurrency = optimisticConcurrency;
+    this.changeFeed = changeFeed;
+    this.retry = retry;
+    this.circuitBreaker = circuitBreaker && new CircuitBreaker(circuitBreaker);
+    this.instrumentation = new RedisSaverInstrumentation(instrumentation);
+    this.compression = compression;
+    this.isCluster = isCluster;
+    this.keySchema = {
+      ...createRedisKeySchema(keyPrefix, { hashTags: this.isCluster }),
+      ...keySchema,
+    };
   }
 
   async put(
     config: RunnableConfig,
     checkpoint: Checkpoint,
     metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    return this.instrumentation.trace(
+      "put",
+      {
+        thread_id: config?.configurable?.thread_id,
+        checkpoint_ns: config?.configurable?.checkpoint_ns ?? "",
+        checkpoint_id: checkpoint?.id,
+      },
+      () => this._put(config, checkpoint, metadata)
+    );
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    return this.instrumentation.trace(
+      "putWrites",
+      {
+        thread_id: config?.configurable?.thread_id,
+        checkpoint_ns: config?.configurable?.checkpoint_ns,
+        checkpoint_id: config?.configurable?.checkpoint_id,
+        task_id: taskId,
+      },
+      () => this._putWrites(config, writes, taskId)
+    );
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    return this.instrumentation.trace(
+      "getTuple",
+      {
+        thread_id: config?.configurable?.thread_id,
+        checkpoint_ns: config?.configurable?.checkpoint_ns ?? "",
+        checkpoint_id: config?.configurable?.checkpoint_id,
+      },
+      () => this._getTuple(config)
+    );
+  }
+
+  /**
+   * Lists checkpoints newest first. Omitting `checkpoint_ns` lists every
+   * namespace of the thread, and omitting `thread_id` lists every thread,
+   * starting with the most recently updated one.
+   */
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    yield* this.instrumentation.traceGenerator(
+      "list",
+      {
+        thread_id: config?.configurable?.thread_id,
+        checkpoint_ns: config?.configurable?.checkpoint_ns,
+        limit: options?.limit,
+      },
+      () => this._list(config, options)
+    );
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    return this.instrumentation.trace(
+      "deleteThread",
+      { thread_id: threadId },
+      () => deleteThread(this, threadId)
+    );
+  }
+
+  /**
+   * Pages through the thread registry, newest first. Threads are registered
+   * by put(), so threads saved by earlier versions appear after their next
+   * checkpoint.
+   */
+  async listThreads(options: ListThreadsOptions = {}): Promise<ThreadPage> {
+    return this.instrumentation.trace(
+      "listThreads",
+      { order_by: options.orderBy ?? "updated_at", limit: options.limit },
+      () => listThreads(this, options)
+    );
+  }
+
+  /**
+   * Returns the registry entry of a thread, or undefined if it has none.
+   */
+  async getThread(threadId: string): Promise<ThreadInfo | undefined> {
+    return this.instrumentation.trace(
+      "getThread",
+      { thread_id: threadId },
+      () => getThread(this, threadId)
+    );
+  }
+
+  /**
+   * Copies the checkpoints of a thread, or of one namespace if the source
+   * config sets `checkpoint_ns`, to a new thread, e.g. to branch a
+   * conversation from a past checkpoint. With `upToCheckpointId`, only that
+   * checkpoint and its ancestors are copied, together with the checkpoints of
+   * deeper namespaces, such as subgraphs, that ran under one of them.
+   * Checkpoints, pending writes and parent links are copied byte for byte
+   * inside Redis, and the copies expire with the TTL of the source thread.
+   * The new thread keeps the creation time and metadata of the source.
+   *
+   * @returns The config of the latest copied checkpoint
+   */
+  async copyThread(
+    sourceConfig: RunnableConfig,
+    targetThreadId: string,
+    options: CopyThreadOptions = {}
+  ): Promise<RunnableConfig> {
+    return this.instrumentation.trace(
+      "copyThread",
+      {
+        thread_id: sourceConfig?.configurable?.thread_id,
+        checkpoint_ns: sourceConfig?.configurable?.checkpoint_ns,
+        target_thread_id: targetThreadId,
+      },
+      () => copyThread(this, sourceConfig, targetThreadId, options)
+    );
+  }
+
+  /**
+   * Streams a thread as NDJSON lines, e.g. to back it up or move it to
+   * another Redis instance. The export holds every checkpoint and pending
+   * write byte for byte, the thread metadata and the remaining TTL of each
+   * key. Records written while the export runs may be missing from it.
+   */
+  async *exportThread(threadId: string): AsyncGenerator<string> {
+    yield* this.instrumentation.traceGenerator(
+      "exportThread",
+      { thread_id: threadId },
+      () => exportThread(this, threadId)
+    );
+  }
+
+  /**
+   * Loads a thread written by exportThread() from NDJSON lines or from raw
+   * chunks, such as a file read stream. Records that already exist are kept,
+   * or replaced with `onConflict: "overwrite"`. Every record is validated
+   * before anything is written, so the export is held in memory.
+   */
+  async importThread(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+    options: ImportThreadOptions = {}
+  ): Promise<ImportThreadResult> {
+    return this.instrumentation.trace(
+      "importThread",
+      { thread_id: options.threadId, on_conflict: options.onConflict ?? "skip" },
+      () => importThread(this, source, options)
+    );
+  }
+
+  /**
+   * Walks all checkpoints and writes, or those of one thread, with SCAN and
+   * reports orphaned writes, dangling parents, undecodable blobs and records
+   * missing from the indexes. With `repair`, orphaned writes and undecodable
+   * records are deleted, dangling parents are cleared so the checkpoint
+   * becomes the root of its chain, and missing index entries are added.
+   */
+  async verify(options: VerifyOptions = {}): Promise<VerifyReport> {
+    return this.instrumentation.trace(
+      "verify",
+      { thread_id: options.threadId, repair: options.repair ?? false },
+      () => verify(this, options)
+    );
+  }
+
+  /**
+   * Shorthand for `verify({ ...options, repair: true })`.
+   */
+  async gc(options: Omit<VerifyOptions, "repair"> = {}): Promise<VerifyReport> {
+    return this.verify({ ...options, repair: true });
+  }
+
+  /**
+   * Removes checkpoints exceeding the retention policy from every namespace
+   * of a thread, together with their pending writes. The latest checkpoint
+   * of each namespace is always kept. Retained checkpoints whose parent was
+   * removed become the new root of their chain.
+   *
+   * @returns The number of removed checkpoints
+   */
+  async prune(
+    threadId: string,
+    retention: RetentionOptions | undefined = this.retention
+  ): Promise<number> {
+    return this.instrumentation.trace(
+      "prune",
+      { thread_id: threadId },
+      () => prune(this, threadId, retention)
+    );
+  }
+
+  /**
+   * Re-encrypts every checkpoint and write of a thread with the current key
+   * of the saver's `EncryptedSerializer`, e.g. after rotating keys. Records
+   * are rewritten one at a time with a compare-and-set, so the thread stays
+   * readable and writable throughout. Records already encrypted with the
+   * current key are skipped, and unencrypted records are encrypted.
+   *
+   * @returns The number of rewritten records
+   */
+  async reencryptThread(threadId: string): Promise<number> {
+    return this.instrumentation.trace(
+      "reencryptThread",
+      { thread_id: threadId },
+      () => reencryptThread(this, threadId)
+    );
+  }
+
+  /**
+   * Follows the change feed, yielding an event for every checkpoint and
+   * batch of writes saved to a matching thread. `thread` is a thread ID,
+   * matched literally, or `{ pattern }` with a Redis glob pattern such as
+   * `user-*`.
+   *
+   * Reads use a duplicate of the connection, since they block it while
+   * waiting. Events are only published by savers configured with
+   * `changeFeed`. The subscription ends when `signal` aborts or the loop
+   * breaks. It is not traced, since it may run for the life of the process.
+   *
+   * With a `group`, consumers also acknowledge the events of other threads
+   * they skip, so every consumer of the group must subscribe to the same
+   * thread or pattern.
+   */
+  async *subscribe(
+    thread: string | { pattern: string },
+    options: SubscribeOptions = {}
+  ): AsyncGenerator<CheckpointEvent> {
+    yield* subscribe(this, thread, options);
+  }
+
+  /**
+   * Takes an exclusive lease on a thread, for callers that prefer locking
+   * over `optimisticConcurrency`. Leases are advisory: put() does not check
+   * them, so every writer of the thread has to acquire one. They lapse after
+   * `ttlMs` unless renewed, so a crashed holder cannot block a thread forever.
+   *
+   * @throws CheckpointConflictError if the lease is still held by someone
+   * else after `waitMs`
+   */
+  async acquireThreadLease(
+    threadId: string,
+    options: ThreadLeaseOptions = {}
+  ): Promise<ThreadLease> {
+    return this.instrumentation.trace(
+      "acquireThreadLease",
+      { thread_id: threadId },
+      () => acquireThreadLease(this, threadId, options)
+    );
+  }
+
+  /**
+   * Extends a lease by `ttlMs` from now.
+   *
+   * @throws CheckpointConflictError if the lease has lapsed or was taken over
+   */
+  async renewThreadLease(
+    lease: ThreadLease,
+    { ttlMs = 30000 }: Pick<ThreadLeaseOptions, "ttlMs"> = {}
+  ): Promise<ThreadLease> {
+    return this.instrumentation.trace(
+      "renewThreadLease",
+      { thread_id: lease?.thread_id },
+      () => renewThreadLease(this, lease, ttlMs)
+    );
+  }
+
+  /**
+   * Releases a lease so others can acquire it right away.
+   *
+   * @returns false if the lease had already lapsed or was taken over
+   */
+  async releaseThreadLease(lease: ThreadLease): Promise<boolean> {
+    return this.instrumentation.trace(
+      "releaseThreadLease",
+      { thread_id: lease?.thread_id },
+      () => releaseThreadLease(this, lease)
+    );
+  }
+
+  private async _put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
   ): Promise<RunnableConfig> {
     // Validate required parameters
     if (!config) {
-      throw new Error("put() requires a valid RunnableConfig. Got: undefined");
+      throw new CheckpointValidationError("put() requires a valid RunnableConfig. Got: undefined", {
+        operation: "put",
+      });
     }
     if (!checkpoint) {
-      throw new Error("put() requires a valid Checkpoint. Got: undefined");
+      throw new CheckpointValidationError("put() requires a valid Checkpoint. Got: undefined", {
+        operation: "put",
+      });
     }
     if (!metadata) {
-      throw new Error("put() requires valid CheckpointMetadata. Got: undefined");
+      throw new CheckpointValidationError("put() requires valid CheckpointMetadata. Got: undefined", {
+        operation: "put",
+      });
     }
     if (!checkpoint.id) {
-      throw new Error("put() requires checkpoint to have a valid id. Got: undefined");
+      throw new CheckpointValidationError("put() requires checkpoint to have a valid id. Got: undefined", {
+        operation: "put",
+      });
     }
 
     const checkpointId = checkpoint.id;
@@ -77,44 +633,239 @@ export class RedisSaver extends BaseCheckpointSaver {
 
     // Validate required config fields
     if (!thread_id) {
-      throw new Error("put() requires config.configurable.thread_id to be defined. Got: undefined");
+      throw new CheckpointValidationError("put() requires config.configurable.thread_id to be defined. Got: undefined", {
+        operation: "put",
+      });
+    }
+
+    const ttl = this._getTtl(config, "put");
+
+    const threadMetadata = config.configurable?.thread_metadata;
+    if (
+      threadMetadata !== undefined &&
+      (typeof threadMetadata !== "object" || threadMetadata === null || Array.isArray(threadMetadata))
+    ) {
+      throw new CheckpointValidationError(
+        `put() requires config.configurable.thread_metadata to be an object. Got: ${JSON.stringify(threadMetadata)}`,
+        { operation: "put", thread_id }
+      );
     }
 
-    const key = makeRedisCheckpointKey(
+    const key = this.keySchema.checkpointKey(
       thread_id,
       checkpoint_ns,
       checkpointId
     );
-    const [checkpointType, serializedCheckpoint] =
-      await this.serde.dumpsTyped(checkpoint);
-    const [metadataType, serializedMetadata] = await this.serde.dumpsTyped(metadata);
+    let checkpointType: string;
+    let serializedCheckpoint: Uint8Array;
+    let metadataType: string;
+    let serializedMetadata: Uint8Array;
+    try {
+      [checkpointType, serializedCheckpoint] =
+        await this.serde.dumpsTyped(checkpoint);
+      [metadataType, serializedMetadata] = await this.serde.dumpsTyped(metadata);
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to serialize checkpoint: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Thread: ${thread_id}, Checkpoint: ${checkpointId}`,
+        { cause: error, operation: "put", thread_id, checkpoint_id: checkpointId }
+      );
+    }
 
     if (checkpointType !== metadataType) {
-      throw new Error(
+      throw new CheckpointSerializationError(
         `Serialization type mismatch: checkpoint type "${checkpointType}" does not match metadata type "${metadataType}". ` +
-        `This usually indicates a serialization configuration issue.`
+        `This usually indicates a serialization configuration issue.`,
+        { operation: "put", key, thread_id, checkpoint_id: checkpointId }
+      );
+    }
+
+    this.instrumentation.recordPayload(
+      "put",
+      { thread_id, checkpoint_ns, checkpoint_id: checkpointId },
+      serializedCheckpoint.byteLength + serializedMetadata.byteLength
+    );
+
+    let compressed: Awaited<ReturnType<typeof compressRedisBlob>>[];
+    try {
+      compressed = await Promise.all([
+        compressRedisBlob(serializedCheckpoint, this.compression),
+        compressRedisBlob(serializedMetadata, this.compression),
+      ]);
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to compress checkpoint: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Thread: ${thread_id}, Checkpoint: ${checkpointId}`,
+        { cause: error, operation: "put", key, thread_id, checkpoint_id: checkpointId }
       );
     }
+    const [
+      [storedCheckpoint, checkpointCompression],
+      [storedMetadata, metadataCompression],
+    ] = compressed;
 
-    const data = {
-      checkpoint: serializedCheckpoint,
+    // The codec fields are always written, so overwriting a compressed
+    // record with an uncompressed one never leaves a stale codec behind
+    const data: RedisHashData = {
+      checkpoint: encodeRedisBlob(storedCheckpoint),
       type: checkpointType,
+      compression: checkpointCompression ?? "",
       metadata_type: metadataType,
-      metadata: serializedMetadata,
+      metadata: encodeRedisBlob(storedMetadata),
+      metadata_compression: metadataCompression ?? "",
       parent_checkpoint_id: parentCheckpointId ?? "",
+      encoding: REDIS_BLOB_ENCODING,
     };
 
+    // Remember the TTL so reads can refresh the thread with the same expiry.
+    // A stale TTL of an earlier save of the checkpoint is removed below.
+    if (ttl) {
+      data.ttl = ttl.toString();
+    }
+
+    const indexKey = this.keySchema.checkpointIndexKey(thread_id, checkpoint_ns);
+    const namespacesKey = this.keySchema.namespacesKey(thread_id);
+    const threadKey = this.keySchema.threadKey(thread_id);
+    const threadIndexKey = this.keySchema.threadIndexKey();
+    const threadCreatedIndexKey = this.keySchema.threadCreatedIndexKey();
+
     try {
-      await this.connection.hset(key, data);
+      // Every command below is idempotent, so a retry after a failure that
+      // may already have been applied rewrites the same values
+      await withSaverRetry(this, async () => {
+        const now = Date.now();
 
-      // Set TTL if configured
-      if (this.ttl) {
-        await this.connection.expire(key, this.ttl);
+        // The thread indexes and the change feed are shared by all threads,
+        // so in cluster mode they live in another slot and are updated right
+        // after the checkpoint is saved
+        const event: Record<string, string> = {
+          type: "checkpoint",
+          thread_id,
+          checkpoint_ns,
+          checkpoint_id: checkpointId,
+          ...(parentCheckpointId && { parent_checkpoint_id: parentCheckpointId }),
+          ...(typeof metadata.step === "number" && { step: metadata.step.toString() }),
+        };
+
+        // Save the checkpoint, its index entries, the thread registry and
+        // TTLs in a single transaction. With optimistic concurrency a script
+        // does the same, after comparing the parent with the latest
+        // checkpoint atomically.
+        if (this.optimisticConcurrency) {
+          const sharedKeys = this.isCluster
+            ? []
+            : [
+                threadIndexKey,
+                threadCreatedIndexKey,
+                ...(this.changeFeed ? [this.keySchema.changeFeedKey()] : []),
+              ];
+          const eventArgs = Object.entries(event).flat();
+          const [saved, latest] = (await this.connection.eval(
+            PUT_IF_LATEST_SCRIPT,
+            4 + sharedKeys.length,
+            key,
+            indexKey,
+            namespacesKey,
+            threadKey,
+            ...sharedKeys,
+            parentCheckpointId ?? "",
+            checkpointId,
+            checkpoint_ns,
+            thread_id,
+            now,
+            ttl ?? "",
+            threadMetadata !== undefined ? JSON.stringify(threadMetadata) : "",
+            this.changeFeed ? this.changeFeed.maxLen ?? CHANGE_FEED_MAX_LEN : "",
+            eventArgs.length,
+            ...eventArgs,
+            ...Object.entries(data).flat()
+          )) as [number, string];
+          if (!saved) {
+            throw new CheckpointConflictError(
+              `Failed to save checkpoint: its parent ${parentCheckpointId ?? "(none)"} is no longer ` +
+              `the latest checkpoint, ${latest || "(none)"} is. ` +
+              `Thread: ${thread_id}, Namespace: "${checkpoint_ns}", Checkpoint: ${checkpointId}`,
+              { operation: "put", key, thread_id, checkpoint_id: checkpointId }
+            );
+          }
+        } else {
+          // The keys shared with the other checkpoints of the thread must
+          // outlive all of them, so their expiry before the save is read in
+          // the same transaction and restored below if it was longer
+          const sharedKeys = [indexKey, namespacesKey, threadKey];
+          const transaction = this.connection.multi();
+          for (const sharedKey of sharedKeys) {
+            transaction.pttl(sharedKey);
+          }
+          transaction
+            .hset(key, data)
+            .zadd(indexKey, 0, checkpointId)
+            .sadd(namespacesKey, checkpoint_ns)
+            .hsetnx(threadKey, "created_at", now)
+            .hset(threadKey, "updated_at", now);
+          if (threadMetadata !== undefined) {
+            transaction.hset(threadKey, "metadata", JSON.stringify(threadMetadata));
+          }
+          if (!this.isCluster) {
+            transaction
+              .zadd(threadIndexKey, now, thread_id)
+              .zadd(threadCreatedIndexKey, "NX", now, thread_id);
+            this._publishEvent(transaction, event);
+          }
+
+          // Set TTL if configured, else drop the expiry of an earlier save
+          if (ttl) {
+            transaction
+              .expire(key, ttl)
+              .expire(indexKey, ttl)
+              .expire(namespacesKey, ttl)
+              .expire(threadKey, ttl);
+          } else {
+            transaction
+              .hdel(key, "ttl")
+              .persist(key)
+              .persist(indexKey)
+              .persist(namespacesKey)
+              .persist(threadKey);
+          }
+          const results = await execTransaction(transaction);
+          if (ttl) {
+            await this._restoreLongerExpiry(
+              sharedKeys.map((sharedKey, i): [string, number] => [sharedKey, Number(results[i])]),
+              ttl
+            );
+          }
+        }
+
+        if (this.isCluster) {
+          await this.connection.zadd(threadIndexKey, now, thread_id);
+          await this.connection.zadd(threadCreatedIndexKey, "NX", now, thread_id);
+          if (this.changeFeed) {
+            await execTransaction(this._publishEvent(this.connection.multi(), event));
+          }
+        }
+      });
+
+      // The checkpoint is saved at this point, so a failure to prune does
+      // not fail the put(). It is recorded as a failed "prune" operation and
+      // the next put() prunes the namespace again.
+      const { retention } = this;
+      if (retention) {
+        await this.instrumentation
+          .trace("prune", { thread_id, checkpoint_ns }, () =>
+            withSaverRetry(this, () =>
+              pruneNamespace(this, thread_id, checkpoint_ns, retention)
+            )
+          )
+          .catch(() => undefined);
       }
+      await afterWrite(this, thread_id);
     } catch (error) {
-      throw new Error(
-        `Failed to save checkpoint to Redis: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Key: ${key}, Thread: ${thread_id}, Checkpoint: ${checkpointId}`
+      throw wrapRedisError(
+        error,
+        "Failed to save checkpoint to Redis",
+        `Key: ${key}, Thread: ${thread_id}, Checkpoint: ${checkpointId}`,
+        { operation: "put", key, thread_id, checkpoint_id: checkpointId }
       );
     }
 
@@ -123,24 +874,37 @@ export class RedisSaver extends BaseCheckpointSaver {
         thread_id,
         checkpoint_ns,
         checkpoint_id: checkpointId,
+        // Carry a TTL override over to the putWrites() calls of this checkpoint
+        ...(config.configurable?.checkpoint_ttl !== undefined && {
+          checkpoint_ttl: ttl,
+        }),
       },
     };
   }
 
-  async putWrites(
+  private async _putWrites(
     config: RunnableConfig,
     writes: PendingWrite[],
     taskId: string
   ): Promise<void> {
     // Validate required parameters
     if (!config) {
-      throw new Error("putWrites() requires a valid RunnableConfig. Got: undefined");
+      throw new CheckpointValidationError(
+        "putWrites() requires a valid RunnableConfig. Got: undefined",
+        { operation: "putWrites" }
+      );
     }
     if (!Array.isArray(writes)) {
-      throw new Error(`putWrites() requires writes to be an array. Got: ${typeof writes}`);
+      throw new CheckpointValidationError(
+        `putWrites() requires writes to be an array. Got: ${typeof writes}`,
+        { operation: "putWrites" }
+      );
     }
     if (!taskId || typeof taskId !== 'string') {
-      throw new Error(`putWrites() requires a valid taskId string. Got: ${taskId}`);
+      throw new CheckpointValidationError(
+        `putWrites() requires a valid taskId string. Got: ${taskId}`,
+        { operation: "putWrites" }
+      );
     }
 
     const { thread_id, checkpoint_ns, checkpoint_id } =
@@ -151,53 +915,150 @@ export class RedisSaver extends BaseCheckpointSaver {
       checkpoint_ns === undefined ||
       checkpoint_id === undefined
     ) {
-      throw new Error(
+      throw new CheckpointValidationError(
         `putWrites() requires config.configurable to contain "thread_id", "checkpoint_ns" and "checkpoint_id" fields. ` +
-        `Got: thread_id=${thread_id}, checkpoint_ns=${checkpoint_ns}, checkpoint_id=${checkpoint_id}`
+        `Got: thread_id=${thread_id}, checkpoint_ns=${checkpoint_ns}, checkpoint_id=${checkpoint_id}`,
+        { operation: "putWrites", thread_id, checkpoint_id }
+      );
+    }
+
+    const ttl = this._getTtl(config, "putWrites");
+    const writesIndexKey = this.keySchema.writesIndexKey(
+      thread_id,
+      checkpoint_ns,
+      checkpoint_id
+    );
+
+    let dumpedWrites: Awaited<ReturnType<typeof dumpWrites>>;
+    try {
+      dumpedWrites = await dumpWrites(this.serde, writes);
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to serialize writes: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Thread: ${thread_id}, Checkpoint: ${checkpoint_id}, Task: ${taskId}`,
+        { cause: error, operation: "putWrites", thread_id, checkpoint_id }
       );
     }
 
+    if (dumpedWrites.length === 0) {
+      return;
+    }
+
+    this.instrumentation.recordPayload(
+      "putWrites",
+      { thread_id, checkpoint_ns, checkpoint_id, task_id: taskId },
+      dumpedWrites.reduce((bytes, write) => bytes + write.value.byteLength, 0)
+    );
+
+    let storedWrites: RedisHashData[];
     try {
-      const dumpedWrites = await dumpWrites(this.serde, writes);
+      storedWrites = await Promise.all(
+        dumpedWrites.map(async (write) => {
+          const [value, compression] = await compressRedisBlob(
+            write.value,
+            this.compression
+          );
+          return {
+            ...write,
+            value: encodeRedisBlob(value),
+            compression: compression ?? "",
+            encoding: REDIS_BLOB_ENCODING,
+          };
+        })
+      );
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to compress writes: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Thread: ${thread_id}, Checkpoint: ${checkpoint_id}, Task: ${taskId}`,
+        { cause: error, operation: "putWrites", thread_id, checkpoint_id }
+      );
+    }
 
-      for (const [idx, write] of dumpedWrites.entries()) {
-        const key = makeRedisCheckpointWritesKey(
-          thread_id,
-          checkpoint_ns,
-          checkpoint_id,
-          taskId,
-          idx
-        );
+    try {
+      // Each write has its own key derived from the task ID and its index in
+      // the batch, so retrying overwrites the same keys instead of adding
+      // duplicate writes
+      await withSaverRetry(this, async () => {
+        // Save every write of the batch together with the writes index and
+        // TTLs in a single transaction so a failure never leaves a partial
+        // batch. The writes index is shared with other batches, so its expiry
+        // is read first and restored below if it was longer.
+        const transaction = this.connection.multi().pttl(writesIndexKey);
 
-        try {
-          await this.connection.hset(key, write);
+        for (const [idx, write] of storedWrites.entries()) {
+          const key = this.keySchema.writesKey(
+            thread_id,
+            checkpoint_ns,
+            checkpoint_id,
+            taskId,
+            idx
+          );
+
+          transaction.hset(key, write).sadd(writesIndexKey, key);
 
-          // Set TTL if configured
-          if (this.ttl) {
-            await this.connection.expire(key, this.ttl);
+          // Set TTL if configured, else drop the expiry of an earlier save
+          if (ttl) {
+            transaction.expire(key, ttl);
+          } else {
+            transaction.persist(key);
           }
-        } catch (error) {
-          throw new Error(
-            `Failed to save write to Redis: ${error instanceof Error ? error.message : String(error)}. ` +
-            `Key: ${key}, Thread: ${thread_id}, Checkpoint: ${checkpoint_id}, Task: ${taskId}, Index: ${idx}`
-          );
         }
+
+        if (ttl) {
+          transaction.expire(writesIndexKey, ttl);
+        } else {
+          transaction.persist(writesIndexKey);
+        }
+
+        const event = {
+          type: "writes",
+          thread_id,
+          checkpoint_ns,
+          checkpoint_id,
+          task_id: taskId,
+          channels: JSON.stringify(Array.from(new Set(writes.map(([channel]) => channel)))),
+        };
+        if (!this.isCluster) {
+          this._publishEvent(transaction, event);
+        }
+        const [writesIndexPttl] = await execTransaction(transaction);
+        if (ttl) {
+          await this._restoreLongerExpiry([[writesIndexKey, Number(writesIndexPttl)]], ttl);
+        }
+        if (this.isCluster && this.changeFeed) {
+          await execTransaction(this._publishEvent(this.connection.multi(), event));
+        }
+        await afterWrite(this, thread_id);
+      });
+
+      // Writes keep a thread alive like reads do
+      if (this.refreshOnRead && ttl) {
+        await this._refreshThreadTtl(thread_id, ttl, "putWrites");
       }
     } catch (error) {
-      if (error instanceof Error && error.message.startsWith('Failed to save write to Redis:')) {
-        throw error; // Re-throw Redis operation errors
-      }
-      throw new Error(
-        `Failed to serialize writes: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Thread: ${thread_id}, Checkpoint: ${checkpoint_id}, Task: ${taskId}`
+      throw wrapRedisError(
+        error,
+        "Failed to save writes to Redis",
+        `Thread: ${thread_id}, Checkpoint: ${checkpoint_id}, Task: ${taskId}, Writes: ${dumpedWrites.length}`,
+        {
+          operation: "putWrites",
+          key: writesIndexKey,
+          thread_id,
+          checkpoint_id,
+        }
       );
     }
   }
 
-  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+  private async _getTuple(
+    config: RunnableConfig
+  ): Promise<CheckpointTuple | undefined> {
     // Validate required parameters
     if (!config) {
-      throw new Error("getTuple() requires a valid RunnableConfig. Got: undefined");
+      throw new CheckpointValidationError(
+        "getTuple() requires a valid RunnableConfig. Got: undefined",
+        { operation: "getTuple" }
+      );
     }
 
     const { thread_id, checkpoint_ns = "" } = config.configurable ?? {};
@@ -205,143 +1066,481 @@ export class RedisSaver extends BaseCheckpointSaver {
 
     // Validate required config fields
     if (!thread_id) {
-      throw new Error("getTuple() requires config.configurable.thread_id to be defined. Got: undefined");
+      throw new CheckpointValidationError(
+        "getTuple() requires config.configurable.thread_id to be defined. Got: undefined",
+        { operation: "getTuple" }
+      );
     }
 
-    const checkpointKey = await this._getCheckpointKey(
-      thread_id,
-      checkpoint_ns,
-      checkpoint_id
-    );
+    const connection = getReadConnection(this, thread_id);
+    let checkpointKey: string | null;
+    try {
+      checkpointKey = await withSaverRetry(this, () =>
+        this._getCheckpointKey(connection, thread_id, checkpoint_ns, checkpoint_id)
+      );
+    } catch (error) {
+      throw wrapRedisError(
+        error,
+        "Failed to find the latest checkpoint in Redis",
+        `Thread: ${thread_id}`,
+        { operation: "getTuple", thread_id }
+      );
+    }
 
-    if (!checkpointKey) return;
+    if (!checkpointKey) {
+      this.instrumentation.recordCacheLookup(
+        "getTuple",
+        { thread_id, checkpoint_ns },
+        false
+      );
+      return;
+    }
 
-    let checkpointData: Record<string, string>;
+    let checkpointData: RedisHashData;
     try {
-      checkpointData = await this.connection.hgetall(checkpointKey);
+      checkpointData = await withSaverRetry(this, () =>
+        connection.hgetallBuffer(checkpointKey as string)
+      );
     } catch (error) {
-      throw new Error(
-        `Failed to retrieve checkpoint data from Redis: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Key: ${checkpointKey}, Thread: ${thread_id}`
+      throw wrapRedisError(
+        error,
+        "Failed to retrieve checkpoint data from Redis",
+        `Key: ${checkpointKey}, Thread: ${thread_id}`,
+        { operation: "getTuple", key: checkpointKey, thread_id, checkpoint_id }
+      );
+    }
+
+    // The requested checkpoint does not exist or has expired
+    if (!checkpointData.checkpoint || !checkpointData.metadata) {
+      this.instrumentation.recordCacheLookup(
+        "getTuple",
+        { thread_id, checkpoint_ns, checkpoint_id },
+        false
       );
+      return;
     }
 
     checkpoint_id =
-      checkpoint_id ?? parseRedisCheckpointKey(checkpointKey).checkpoint_id;
+      checkpoint_id ??
+      this._parseKey(checkpointKey, this.keySchema.parseCheckpointKey, "getTuple", thread_id)
+        .checkpoint_id;
 
-    const writesKey = makeRedisCheckpointWritesKey(
+    const writesIndexKey = this.keySchema.writesIndexKey(
       thread_id,
       checkpoint_ns,
-      checkpoint_id,
-      "*",
-      null
+      checkpoint_id
     );
 
-    let matchingKeys: string[];
+    let writesData: [string, RedisHashData][];
     try {
-      matchingKeys = await this.connection.keys(writesKey);
+      writesData = await withSaverRetry(this, async () => {
+        const writeKeys = await connection.smembers(writesIndexKey);
+        const parsedKeys = writeKeys
+          .map((key): [string, Record<string, string>] => [
+            key,
+            this._parseKey(key, this.keySchema.parseWritesKey, "getTuple", thread_id),
+          ])
+          .sort(([, a], [, b]) => Number(a.idx) - Number(b.idx));
+        return Promise.all(
+          parsedKeys.map(async ([key, { task_id, idx }]): Promise<[string, RedisHashData]> => [
+            `${task_id},${idx}`,
+            await connection.hgetallBuffer(key),
+          ])
+        );
+      });
     } catch (error) {
-      throw new Error(
-        `Failed to retrieve write keys from Redis: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Pattern: ${writesKey}, Thread: ${thread_id}, Checkpoint: ${checkpoint_id}`
-      );
-    }
-
-    const parsedKeys = matchingKeys
-      .map((key) => parseRedisCheckpointWritesKey(key))
-      .sort((a, b) => Number(a.idx) - Number(b.idx));
-
-    const pendingWrites = await loadWrites(
-      this.serde,
-      Object.fromEntries(
-        await Promise.all(
-          parsedKeys.map(async (parsedKey, i) => {
-            return [
-              `${parsedKey.task_id},${parsedKey.idx}`,
-              await this.connection.hgetall(matchingKeys[i]),
-            ];
-          })
-        )
+      throw wrapRedisError(
+        error,
+        "Failed to retrieve write keys from Redis",
+        `Key: ${writesIndexKey}, Thread: ${thread_id}, Checkpoint: ${checkpoint_id}`,
+        { operation: "getTuple", key: writesIndexKey, thread_id, checkpoint_id }
+      );
+    }
+
+    if (this.refreshOnRead) {
+      const ttl =
+        config.configurable?.checkpoint_ttl !== undefined
+          ? this._getTtl(config, "getTuple")
+          : Number(checkpointData.ttl?.toString()) || this.ttl;
+      if (ttl) {
+        await this._refreshThreadTtl(thread_id, ttl, "getTuple");
+      }
+    }
+
+    this.instrumentation.recordCacheLookup(
+      "getTuple",
+      { thread_id, checkpoint_ns, checkpoint_id },
+      true
+    );
+    this.instrumentation.recordPayload(
+      "getTuple",
+      { thread_id, checkpoint_ns, checkpoint_id },
+      writesData.reduce(
+        (bytes, [, write]) => bytes + (write.value?.length ?? 0),
+        checkpointData.checkpoint.length + checkpointData.metadata.length
       )
     );
 
-    return parseRedisCheckpointData(
-      this.serde,
-      checkpointKey,
-      checkpointData,
-      pendingWrites
-    );
+    try {
+      const pendingWrites = await loadWrites(
+        this.serde,
+        Object.fromEntries(writesData)
+      );
+
+      return await parseRedisCheckpointData(
+        this.serde,
+        checkpointKey,
+        checkpointData,
+        pendingWrites,
+        this.keySchema.parseCheckpointKey
+      );
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to deserialize checkpoint: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Key: ${checkpointKey}, Thread: ${thread_id}`,
+        { cause: error, operation: "getTuple", key: checkpointKey, thread_id, checkpoint_id }
+      );
+    }
   }
 
-  async *list(
+  private async *_list(
     config: RunnableConfig,
     options?: CheckpointListOptions
   ): AsyncGenerator<CheckpointTuple> {
-    const { limit, before } = options ?? {};
-    const { thread_id, checkpoint_ns } = config.configurable ?? {};
-    const pattern = makeRedisCheckpointKey(thread_id, checkpoint_ns, "*");
-    let keys = await this.connection.keys(pattern);
+    const { limit, before, filter } = options ?? {};
+    const { thread_id, checkpoint_ns, checkpoint_id } =
+      config.configurable ?? {};
+    const beforeId = before?.configurable?.checkpoint_id;
 
-    keys = filterKeys(keys, before, limit);
+    if (checkpoint_id && beforeId && checkpoint_id >= beforeId) {
+      return;
+    }
 
-    for (const key of keys) {
-      const data = await this.connection.hgetall(key);
-      if (data && data.checkpoint && data.metadata) {
-        yield parseRedisCheckpointData(this.serde, key, data);
+    const max = checkpoint_id
+      ? `[${checkpoint_id}`
+      : beforeId
+        ? `(${beforeId}`
+        : "+";
+    const min = checkpoint_id ? `[${checkpoint_id}` : "-";
+
+    let remaining = limit ?? Infinity;
+    if (remaining <= 0) {
+      return;
+    }
+
+    // Threads whose TTL was refreshed by this call
+    const refreshed = new Set<string>();
+
+    try {
+      const threadIds =
+        thread_id !== undefined
+          ? [thread_id]
+          : this._listThreadIds(this.readConnection);
+
+      for await (const threadId of threadIds) {
+        const connection = getReadConnection(this, threadId);
+        const namespaces =
+          checkpoint_ns !== undefined
+            ? [checkpoint_ns]
+            : await withSaverRetry(this, () =>
+                connection.smembers(this.keySchema.namespacesKey(threadId))
+              );
+
+        for await (const [checkpointNs, id] of this._listCheckpointIds(
+          connection,
+          threadId,
+          namespaces,
+          min,
+          max
+        )) {
+          const key = this.keySchema.checkpointKey(threadId, checkpointNs, id);
+          const data = await withSaverRetry(this, () =>
+            connection.hgetallBuffer(key)
+          );
+
+          // Index entries can outlive their checkpoint hash when a TTL is set
+          if (!data || !data.checkpoint || !data.metadata) {
+            continue;
+          }
+
+          this.instrumentation.recordPayload(
+            "list",
+            { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: id },
+            data.checkpoint.length + data.metadata.length
+          );
+
+          let tuple: CheckpointTuple;
+          try {
+            tuple = await parseRedisCheckpointData(
+              this.serde,
+              key,
+              data,
+              undefined,
+              this.keySchema.parseCheckpointKey
+            );
+          } catch (error) {
+            throw new CheckpointSerializationError(
+              `Failed to deserialize checkpoint: ${error instanceof Error ? error.message : String(error)}. ` +
+              `Key: ${key}, Thread: ${threadId}`,
+              { cause: error, operation: "list", key, thread_id: threadId, checkpoint_id: id }
+            );
+          }
+
+          // Filter before applying the limit so pages are always full
+          if (filter && !matchesFilter(tuple.metadata, filter)) {
+            continue;
+          }
+
+          if (this.refreshOnRead && !refreshed.has(threadId)) {
+            refreshed.add(threadId);
+            const ttl =
+              config.configurable?.checkpoint_ttl !== undefined
+                ? this._getTtl(config, "list")
+                : Number(data.ttl?.toString()) || this.ttl;
+            if (ttl) {
+              await this._refreshThreadTtl(threadId, ttl, "list");
+            }
+          }
+
+          yield tuple;
+          remaining -= 1;
+          if (remaining <= 0) {
+            return;
+          }
+        }
       }
+    } catch (error) {
+      throw wrapRedisError(
+        error,
+        "Failed to list checkpoints from Redis",
+        `Thread: ${thread_id ?? "*"}`,
+        { operation: "list", thread_id }
+      );
     }
   }
 
-  async deleteThread(threadId: string): Promise<void> {
-    try {
-      // Get all checkpoint keys for this thread across all namespaces
-      // Pattern: checkpoint:threadId:* (matches any namespace)
-      const checkpointPattern = makeRedisCheckpointKey(threadId, "*", "*");
-      const checkpointKeys = await this.connection.keys(checkpointPattern);
-
-      // Get all write keys for this thread across all namespaces
-      // Pattern: writes:threadId:* (matches any namespace)
-      const writesPattern = makeRedisCheckpointWritesKey(threadId, "*", "*", "*", null);
-      const writeKeys = await this.connection.keys(writesPattern);
-
-      // Delete all keys
-      const allKeys = [...checkpointKeys, ...writeKeys];
-      if (allKeys.length > 0) {
-        await this.connection.del(...allKeys);
+  /**
+   * Returns the TTL for a call, preferring `config.configurable.checkpoint_ttl`
+   * over the TTL passed to the constructor.
+   */
+  private _getTtl(config: RunnableConfig, method: string): number | undefined {
+    const ttl = config.configurable?.checkpoint_ttl;
+    if (ttl === undefined) {
+      return this.ttl;
+    }
+    if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0) {
+      throw new CheckpointValidationError(
+        `${method}() requires config.configurable.checkpoint_ttl to be a positive integer (seconds). Got: ${ttl}`,
+        { operation: method, thread_id: config.configurable?.thread_id }
+      );
+    }
+    return ttl;
+  }
+
+  /**
+   * Undoes the expiry a transaction set on keys shared by several checkpoints
+   * or writes where it was shorter than before: keys without an expiry are
+   * persisted again and keys that expired later get their expiry back.
+   * `previous` pairs each key with its PTTL read at the start of the
+   * transaction.
+   */
+  private async _restoreLongerExpiry(
+    previous: [string, number][],
+    ttl: number
+  ): Promise<void> {
+    const restore = previous.filter(
+      ([, pttl]) => pttl === -1 || pttl > ttl * 1000
+    );
+    if (restore.length === 0) {
+      return;
+    }
+    const transaction = this.connection.multi();
+    for (const [key, pttl] of restore) {
+      if (pttl === -1) {
+        transaction.persist(key);
+      } else {
+        transaction.pexpire(key, pttl);
       }
+    }
+    await execTransaction(transaction);
+  }
+
+  /**
+   * Extends the expiry of every key of a thread, without shortening keys that
+   * expire later or adding one to keys without an expiry. To avoid rewriting
+   * the TTLs on every call, this only happens once less than half the TTL
+   * remains.
+   */
+  private async _refreshThreadTtl(
+    threadId: string,
+    ttl: number,
+    operation: string
+  ): Promise<void> {
+    try {
+      await withSaverRetry(this, async () => {
+        const remaining = await this.connection.ttl(
+          this.keySchema.namespacesKey(threadId)
+        );
+        if (remaining < 0 || remaining > ttl / 2) {
+          return;
+        }
+
+        const keys = await getThreadKeys(this, threadId);
+        await this.connection.eval(EXTEND_EXPIRY_SCRIPT, keys.length, ...keys, ttl);
+      });
+    } catch (error) {
+      throw wrapRedisError(
+        error,
+        "Failed to refresh thread TTL",
+        `Thread: ${threadId}`,
+        { operation, thread_id: threadId }
+      );
+    }
+  }
+
+  /**
+   * Parses a key read from an index. Keys that do not match the key schema
+   * are reported as validation errors, since retrying cannot fix them.
+   */
+  private _parseKey(
+    redisKey: string,
+    parseKey: (redisKey: string) => Record<string, string>,
+    operation: string,
+    threadId: string
+  ): Record<string, string> {
+    try {
+      return parseKey(redisKey);
     } catch (error) {
-      throw new Error(
-        `Failed to delete thread: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Thread: ${threadId}`
+      throw new CheckpointValidationError(
+        `Failed to parse key: ${error instanceof Error ? error.message : String(error)}. ` +
+        `Key: ${redisKey}, Thread: ${threadId}`,
+        { cause: error, operation, key: redisKey, thread_id: threadId }
       );
     }
   }
 
+  /**
+   * Appends an event to the change feed within a transaction, if enabled. A
+   * retried write may publish its event twice.
+   */
+  private _publishEvent(
+    transaction: ChainableCommander,
+    event: Record<string, string>
+  ): ChainableCommander {
+    if (!this.changeFeed) {
+      return transaction;
+    }
+    return transaction.xadd(
+      this.keySchema.changeFeedKey(),
+      "MAXLEN",
+      "~",
+      this.changeFeed.maxLen ?? CHANGE_FEED_MAX_LEN,
+      "*",
+      ...Object.entries(event).flat()
+    );
+  }
+
   private async _getCheckpointKey(
+    connection: Redis | Cluster,
     threadId: string,
     checkpointNs: string,
     checkpointId: string | undefined
   ): Promise<string | null> {
     if (checkpointId) {
-      return makeRedisCheckpointKey(threadId, checkpointNs, checkpointId);
+      return this.keySchema.checkpointKey(threadId, checkpointNs, checkpointId);
     }
 
-    const allKeys = await this.connection.keys(
-      makeRedisCheckpointKey(threadId, checkpointNs, "*")
+    const [latestId] = await connection.zrevrangebylex(
+      this.keySchema.checkpointIndexKey(threadId, checkpointNs),
+      "+",
+      "-",
+      "LIMIT",
+      0,
+      1
     );
 
-    if (allKeys.length === 0) {
+    if (!latestId) {
       return null;
     }
 
-    const latestKey = allKeys.reduce((maxKey, currentKey) => {
-      const maxKeyData = parseRedisCheckpointKey(maxKey);
-      const currentKeyData = parseRedisCheckpointKey(currentKey);
-      return maxKeyData.checkpoint_id > currentKeyData.checkpoint_id
-        ? maxKey
-        : currentKey;
-    });
+    return this.keySchema.checkpointKey(threadId, checkpointNs, latestId);
+  }
+
+  private async *_listThreadIds(
+    connection: Redis | Cluster
+  ): AsyncGenerator<string> {
+    const threadIndexKey = this.keySchema.threadIndexKey();
 
-    return latestKey;
+    for (let offset = 0; ; offset += LIST_BATCH_SIZE) {
+      const threadIds = await withSaverRetry(this, () =>
+        connection.zrevrange(
+          threadIndexKey,
+          offset,
+          offset + LIST_BATCH_SIZE - 1
+        )
+      );
+      yield* threadIds;
+
+      if (threadIds.length < LIST_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Yields `[checkpointNs, checkpointId]` pairs within a lex range of the
+   * checkpoint indexes, merging all namespaces into one newest-first stream.
+   */
+  private async *_listCheckpointIds(
+    connection: Redis | Cluster,
+    threadId: string,
+    namespaces: string[],
+    min: string,
+    max: string
+  ): AsyncGenerator<[string, string]> {
+    const cursors: CheckpointIdCursor[] = namespaces.map((checkpointNs) => ({
+      checkpointNs,
+      ids: [],
+      max,
+      done: false,
+    }));
+
+    const fill = async (cursor: CheckpointIdCursor) => {
+      if (cursor.ids.length > 0 || cursor.done) {
+        return;
+      }
+
+      cursor.ids = await withSaverRetry(this, () =>
+        connection.zrevrangebylex(
+          this.keySchema.checkpointIndexKey(threadId, cursor.checkpointNs),
+          cursor.max,
+          min,
+          "LIMIT",
+          0,
+          LIST_BATCH_SIZE
+        )
+      );
+      cursor.done = cursor.ids.length < LIST_BATCH_SIZE;
+      if (cursor.ids.length > 0) {
+        cursor.max = `(${cursor.ids[cursor.ids.length - 1]}`;
+      }
+    };
+
+    while (true) {
+      await Promise.all(cursors.map(fill));
+
+      let next: CheckpointIdCursor | undefined;
+      for (const cursor of cursors) {
+        if (cursor.ids.length > 0 && (!next || cursor.ids[0] > next.ids[0])) {
+          next = cursor;
+        }
+      }
+
+      if (!next) {
+        return;
+      }
+
+      yield [next.checkpointNs, next.ids.shift() as string];
+    }
   }
 }
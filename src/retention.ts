@@ -0,0 +1,165 @@
+import {
+  CheckpointConflictError,
+  CheckpointValidationError,
+} from "./errors.js";
+import { getCheckpointIdTimestamp, wrapRedisError } from "./utils.js";
+import {
+  afterWrite,
+  withSaverRetry,
+  type RedisSaverContext,
+} from "./saver-context.js";
+
+// Removes checkpoints from the index KEYS[1] of a namespace together with
+// their writes, and clears the parent of retained checkpoints whose parent is
+// removed. ARGV holds (checkpoint ID, '1' to remove it or '') pairs for every
+// ID in the index, in order, and KEYS the checkpoint and writes index keys of
+// each. Returns the number of removed checkpoints, or -1 without changing
+// anything if the index no longer holds exactly these IDs.
+const PRUNE_NAMESPACE_SCRIPT = `
+local ids = redis.call('ZRANGE', KEYS[1], 0, -1)
+if #ids * 2 ~= #ARGV then
+  return -1
+end
+for i, id in ipairs(ids) do
+  if id ~= ARGV[i * 2 - 1] then
+    return -1
+  end
+end
+local pruned = {}
+local count = 0
+for i, id in ipairs(ids) do
+  if ARGV[i * 2] == '1' then
+    pruned[id] = true
+    count = count + 1
+    for _, key in ipairs(redis.call('SMEMBERS', KEYS[i * 2 + 1])) do
+      redis.call('DEL', key)
+    end
+    redis.call('DEL', KEYS[i * 2], KEYS[i * 2 + 1])
+    redis.call('ZREM', KEYS[1], id)
+  end
+end
+for i, id in ipairs(ids) do
+  if not pruned[id] then
+    local parent = redis.call('HGET', KEYS[i * 2], 'parent_checkpoint_id')
+    if parent and pruned[parent] then
+      redis.call('HSET', KEYS[i * 2], 'parent_checkpoint_id', '')
+    end
+  end
+end
+return count
+`;
+
+// Times prune() reads a namespace again after it changed while pruning
+const PRUNE_ATTEMPTS = 5;
+
+export type RetentionOptions = {
+  maxCheckpointsPerThread?: number; // Checkpoints kept per thread namespace
+  // Age in seconds after which checkpoints are pruned. The age is read from
+  // uuid6 checkpoint IDs, as LangGraph generates them, so checkpoints with
+  // other IDs are only pruned by maxCheckpointsPerThread.
+  maxAge?: number;
+};
+
+export async function prune(
+  context: RedisSaverContext,
+  threadId: string,
+  retention: RetentionOptions | undefined
+): Promise<number> {
+  if (!threadId) {
+    throw new CheckpointValidationError(
+      "prune() requires a valid threadId. Got: undefined",
+      { operation: "prune" }
+    );
+  }
+  if (!retention) {
+    throw new CheckpointValidationError(
+      "prune() requires a retention policy. Pass one to the RedisSaver constructor or to prune().",
+      { operation: "prune", thread_id: threadId }
+    );
+  }
+
+  try {
+    const pruned = await withSaverRetry(context, async () => {
+      const namespaces = await context.connection.smembers(
+        context.keySchema.namespacesKey(threadId)
+      );
+
+      let count = 0;
+      for (const checkpointNs of namespaces) {
+        count += await pruneNamespace(context, threadId, checkpointNs, retention);
+      }
+      return count;
+    });
+
+    if (pruned > 0) {
+      await afterWrite(context, threadId);
+    }
+    return pruned;
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to prune thread",
+      `Thread: ${threadId}`,
+      { operation: "prune", thread_id: threadId }
+    );
+  }
+}
+
+/**
+ * Prunes a namespace in one script, so checkpoints and writes saved
+ * concurrently are never half removed. The script refuses to run when the
+ * index changed since it was read, in which case it is read again.
+ */
+export async function pruneNamespace(
+  context: RedisSaverContext,
+  threadId: string,
+  checkpointNs: string,
+  { maxCheckpointsPerThread, maxAge }: RetentionOptions
+): Promise<number> {
+  const indexKey = context.keySchema.checkpointIndexKey(threadId, checkpointNs);
+
+  for (let attempt = 1; attempt <= PRUNE_ATTEMPTS; attempt += 1) {
+    const ids = await context.connection.zrange(indexKey, 0, -1);
+
+    const excess = maxCheckpointsPerThread
+      ? ids.length - maxCheckpointsPerThread
+      : 0;
+    const cutoff = maxAge ? Date.now() - maxAge * 1000 : undefined;
+    const pruned = ids.map((id, i) => {
+      if (i === ids.length - 1) {
+        return false;
+      }
+      if (i < excess) {
+        return true;
+      }
+      const timestamp = getCheckpointIdTimestamp(id);
+      return (
+        cutoff !== undefined && timestamp !== undefined && timestamp < cutoff
+      );
+    });
+
+    if (!pruned.includes(true)) {
+      return 0;
+    }
+
+    const count = (await context.connection.eval(
+      PRUNE_NAMESPACE_SCRIPT,
+      1 + ids.length * 2,
+      indexKey,
+      ...ids.flatMap((id) => [
+        context.keySchema.checkpointKey(threadId, checkpointNs, id),
+        context.keySchema.writesIndexKey(threadId, checkpointNs, id),
+      ]),
+      ...ids.flatMap((id, i) => [id, pruned[i] ? "1" : ""])
+    )) as number;
+    if (count >= 0) {
+      return count;
+    }
+  }
+
+  throw new CheckpointConflictError(
+    `Failed to prune checkpoints: the namespace changed on each of ${PRUNE_ATTEMPTS} attempts. ` +
+    `Thread: ${threadId}, Namespace: "${checkpointNs}"`,
+    { operation: "prune", key: indexKey, thread_id: threadId }
+  );
+}
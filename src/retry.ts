@@ -0,0 +1,170 @@
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { RedisCheckpointCircuitOpenError } from "./errors.js";
+
+export type RetryOptions = {
+  maxAttempts?: number; // Attempts per operation including the first one (default 3)
+  initialDelayMs?: number; // Delay before the first retry (default 50)
+  maxDelayMs?: number; // Upper bound for the backoff delay (default 2000)
+  factor?: number; // Multiplier applied to the delay after each retry (default 2)
+  jitter?: boolean; // Picks a random delay up to the backoff delay (default true)
+  isRetryable?: (error: unknown) => boolean; // Defaults to isRetryableRedisError
+};
+
+export type CircuitBreakerOptions = {
+  failureThreshold?: number; // Consecutive failures that open the circuit (default 5)
+  resetTimeoutMs?: number; // Time the circuit stays open before a trial call (default 30000)
+};
+
+export type CircuitBreakerState = "closed" | "open" | "half-open";
+
+// Node.js socket errors raised while Redis is unreachable
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+// Redis replies sent while a node is loading, failing over or resharding
+const RETRYABLE_REPLY_PREFIXES = [
+  "LOADING",
+  "READONLY",
+  "MASTERDOWN",
+  "CLUSTERDOWN",
+  "TRYAGAIN",
+];
+
+/**
+ * Returns true for errors caused by Redis being temporarily unavailable,
+ * such as dropped connections and failovers. Command errors like WRONGTYPE
+ * are not retryable.
+ */
+export function isRetryableRedisError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const { code } = error as Error & { code?: unknown };
+  if (typeof code === "string" && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  return (
+    error.name === "MaxRetriesPerRequestError" ||
+    error.message === "Connection is closed." ||
+    RETRYABLE_REPLY_PREFIXES.some((prefix) => error.message.startsWith(prefix))
+  );
+}
+
+/**
+ * Fails fast while Redis is down. The circuit opens after
+ * `failureThreshold` consecutive retryable failures and rejects every call
+ * until `resetTimeoutMs` has passed. It then lets a single trial call
+ * through, which closes the circuit on success and reopens it on failure.
+ */
+export class CircuitBreaker {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor({
+    failureThreshold = 5,
+    resetTimeoutMs = 30_000,
+  }: CircuitBreakerOptions = {}) {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+  }
+
+  get state(): CircuitBreakerState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt < this.resetTimeoutMs
+      ? "open"
+      : "half-open";
+  }
+
+  /**
+   * Runs an operation unless the circuit is open. Only errors matching
+   * `isFailure` count towards opening the circuit.
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = isRetryableRedisError
+  ): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new RedisCheckpointCircuitOpenError(
+        `Circuit breaker is open after ${this.failures} consecutive Redis failures`
+      );
+    }
+
+    this.trialInFlight = state === "half-open";
+    try {
+      const result = await operation();
+      this.failures = 0;
+      this.openedAt = undefined;
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.failures += 1;
+        if (state === "half-open" || this.failures >= this.failureThreshold) {
+          this.openedAt = Date.now();
+        }
+      }
+      throw error;
+    } finally {
+      if (state === "half-open") {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
+
+/**
+ * Runs an operation through the circuit breaker and retries it with
+ * exponential backoff while it fails with a retryable error. The operation
+ * must be idempotent.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  {
+    maxAttempts = 3,
+    initialDelayMs = 50,
+    maxDelayMs = 2000,
+    factor = 2,
+    jitter = true,
+    isRetryable = isRetryableRedisError,
+  }: RetryOptions = {},
+  circuitBreaker?: CircuitBreaker
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return circuitBreaker
+        ? await circuitBreaker.execute(operation, isRetryable)
+        : await operation();
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        error instanceof RedisCheckpointCircuitOpenError ||
+        !isRetryable(error)
+      ) {
+        throw error;
+      }
+
+      const delay = Math.min(
+        maxDelayMs,
+        initialDelayMs * factor ** (attempt - 1)
+      );
+      await sleep(jitter ? Math.random() * delay : delay);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import type { Cluster, Redis } from "ioredis";
+import type { SerializerProtocol } from "@langchain/langgraph-checkpoint";
+
+import { withRetry, type CircuitBreaker, type RetryOptions } from "./retry.js";
+import {
+  execTransaction,
+  type CompressionOptions,
+  type RedisKeySchema,
+} from "./utils.js";
+
+// State of a RedisSaver read by the modules implementing its operations. The
+// saver passes itself.
+export type RedisSaverContext = {
+  connection: Redis | Cluster;
+  readConnection: Redis | Cluster;
+  readYourWrites?: ReadYourWritesOptions;
+  ttl?: number;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  compression?: CompressionOptions;
+  keySchema: RedisKeySchema;
+  isCluster: boolean;
+  serde: SerializerProtocol;
+  // Time of the latest write per thread, while its reads go to the primary
+  recentWrites: Map<string, number>;
+};
+
+// Number of index entries fetched per round trip while paging through list()
+export const LIST_BATCH_SIZE = 100;
+
+// COUNT hint for SCAN and the number of keys removed per DEL command
+export const SCAN_BATCH_SIZE = 500;
+
+export type ReadYourWritesOptions =
+  // Route reads of a thread to the primary for `windowMs` after writing to it
+  | { strategy: "primary"; windowMs?: number }
+  // Block every write until `replicas` replicas acknowledged it (Redis WAIT).
+  // When fewer did within `timeoutMs`, the thread is read from the primary
+  // for `windowMs` instead.
+  | { strategy: "wait"; replicas?: number; timeoutMs?: number; windowMs?: number };
+
+/**
+ * Runs Redis commands with the retry policy and circuit breaker. The
+ * operation must rebuild its transactions, since a transaction can only be
+ * executed once, and must be safe to run more than once.
+ */
+export function withSaverRetry<T>(
+  context: RedisSaverContext,
+  operation: () => Promise<T>
+): Promise<T> {
+  if (!context.retry && !context.circuitBreaker) {
+    return operation();
+  }
+  return withRetry(
+    operation,
+    context.retry ?? { maxAttempts: 1 },
+    context.circuitBreaker
+  );
+}
+
+/**
+ * Applies the read-your-writes strategy after a successful write.
+ */
+export async function afterWrite(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<void> {
+  if (!context.readYourWrites) {
+    return;
+  }
+
+  if (context.readYourWrites.strategy === "wait") {
+    const { replicas = 1, timeoutMs = 100 } = context.readYourWrites;
+    const acknowledged = await context.connection.wait(replicas, timeoutMs);
+    if (acknowledged >= replicas) {
+      return;
+    }
+  }
+
+  const now = Date.now();
+  const windowMs = context.readYourWrites.windowMs ?? 1000;
+
+  // Forget threads whose window has passed so the map stays small
+  for (const [id, writtenAt] of context.recentWrites) {
+    if (now - writtenAt >= windowMs) {
+      context.recentWrites.delete(id);
+    }
+  }
+  context.recentWrites.set(threadId, now);
+}
+
+export function getReadConnection(
+  context: RedisSaverContext,
+  threadId: string
+): Redis | Cluster {
+  if (context.readYourWrites) {
+    const writtenAt = context.recentWrites.get(threadId);
+    const windowMs = context.readYourWrites.windowMs ?? 1000;
+    if (writtenAt !== undefined && Date.now() - writtenAt < windowMs) {
+      return context.connection;
+    }
+  }
+
+  return context.readConnection;
+}
+
+/**
+ * Collects every key of a thread by walking its indexes.
+ */
+export async function getThreadKeys(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<string[]> {
+  const namespacesKey = context.keySchema.namespacesKey(threadId);
+  const keys = [namespacesKey, context.keySchema.threadKey(threadId)];
+
+  for (const checkpointNs of await context.connection.smembers(namespacesKey)) {
+    const indexKey = context.keySchema.checkpointIndexKey(threadId, checkpointNs);
+    const ids = await context.connection.zrange(indexKey, 0, -1);
+    const writesIndexKeys = ids.map((id) =>
+      context.keySchema.writesIndexKey(threadId, checkpointNs, id)
+    );
+
+    const lookup = context.connection.multi();
+    for (const writesIndexKey of writesIndexKeys) {
+      lookup.smembers(writesIndexKey);
+    }
+    const writeKeys = (await execTransaction(lookup)) as string[][];
+
+    keys.push(
+      indexKey,
+      ...ids.map((id) =>
+        context.keySchema.checkpointKey(threadId, checkpointNs, id)
+      ),
+      ...writesIndexKeys,
+      ...writeKeys.flat()
+    );
+  }
+
+  return keys;
+}
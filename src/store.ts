@@ -0,0 +1,851 @@
+import type { Cluster, Redis } from "ioredis";
+import {
+  BaseStore,
+  getTextAtPath,
+  InvalidNamespaceError,
+  type GetOperation,
+  type IndexConfig,
+  type Item,
+  type ListNamespacesOperation,
+  type MatchCondition,
+  type Operation,
+  type OperationResults,
+  type PutOperation,
+  type SearchItem,
+  type SearchOperation,
+} from "@langchain/langgraph-checkpoint";
+
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+  RedisCheckpointError,
+} from "./errors.js";
+import {
+  createRedisStoreKeySchema,
+  decodeRedisVector,
+  encodeRedisVector,
+  execTransaction,
+  matchesFilter,
+  wrapRedisError,
+  type RedisStoreKeySchema,
+} from "./utils.js";
+
+/**
+ * Embeds items for `search({ query })`. `embeddings` is a LangChain
+ * `Embeddings` instance or a function embedding a batch of texts, and
+ * `fields` lists the JSON paths to embed, with `$` for the whole value.
+ *
+ * `vectorSearch` picks the backend: `"redisearch"` runs KNN queries against
+ * an `FT.CREATE` vector index, `"brute-force"` scores candidates in
+ * TypeScript, and `"auto"` (default) uses RediSearch when the server has it.
+ */
+export type RedisStoreIndexConfig = Omit<IndexConfig, "embeddings"> & {
+  embeddings: IndexConfig["embeddings"] | ((texts: string[]) => Promise<number[][]>);
+  vectorSearch?: "auto" | "redisearch" | "brute-force";
+};
+
+export type RedisStoreParams = {
+  connection: Redis | Cluster; // Can be shared with a RedisSaver
+  ttl?: number; // Default TTL in seconds for items
+  index?: RedisStoreIndexConfig; // Enables similarity search
+  keyPrefix?: string; // Prepended to every key, e.g. "myapp:prod"
+  keySchema?: Partial<RedisStoreKeySchema>; // Overrides how keys are built
+};
+
+/**
+ * A `PutOperation` with a TTL in seconds for the item, overriding the
+ * store's default TTL.
+ */
+export type RedisStorePutOperation = PutOperation & { ttl?: number };
+
+// Mirrors the namespace rules BaseStore.put() enforces, so puts passed
+// straight to batch() are validated as well
+function validateNamespace(namespace: string[]): void {
+  if (namespace.length === 0) {
+    throw new InvalidNamespaceError("Namespace cannot be empty.");
+  }
+  for (const label of namespace) {
+    if (typeof label !== "string") {
+      throw new InvalidNamespaceError(
+        `Invalid namespace label '${label}' found in ${namespace}. Namespace labels must be strings, but got ${typeof label}.`
+      );
+    }
+    if (label.includes(".")) {
+      throw new InvalidNamespaceError(
+        `Invalid namespace label '${label}' found in ${namespace}. Namespace labels cannot contain periods ('.').`
+      );
+    }
+    if (label === "") {
+      throw new InvalidNamespaceError(
+        `Namespace labels cannot be empty strings. Got ${label} in ${namespace}`
+      );
+    }
+  }
+  if (namespace[0] === "langgraph") {
+    throw new InvalidNamespaceError(
+      `Root label for namespace cannot be "langgraph". Got: ${namespace}`
+    );
+  }
+}
+
+function validatePageOption(
+  option: "limit" | "offset",
+  value: number,
+  min: number
+): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new CheckpointValidationError(
+      `RedisStore ${option} must be an integer of at least ${min}. Got: ${value}`,
+      { operation: "batch" }
+    );
+  }
+}
+
+// Error replies telling whether the search module or the index is missing
+const UNKNOWN_COMMAND_ERROR = /unknown command/i;
+const UNKNOWN_INDEX_ERROR = /unknown index name|no such index/i;
+
+// Items read per round trip while filling a page of search results
+const SEARCH_BATCH_SIZE = 100;
+
+// Removes the items that expired at or before ARGV[1] from the expiry index
+// KEYS[1] and the update index KEYS[2] of a namespace. The item hashes
+// expire on their own. Scores are compared in Lua because items without a TTL
+// are scored "inf", which tonumber() does not parse.
+const PRUNE_EXPIRED_SCRIPT = `
+local bound = tonumber(ARGV[1])
+local entries = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'WITHSCORES')
+local pruned = 0
+for i = 1, #entries, 2 do
+  local score = tonumber(entries[i + 1])
+  if score and score <= bound then
+    redis.call('ZREM', KEYS[1], entries[i])
+    redis.call('ZREM', KEYS[2], entries[i])
+    pruned = pruned + 1
+  end
+end
+return pruned
+`;
+
+type ItemRef = { namespace: string[]; key: string };
+
+// Texts to embed for an item, keyed by field path. Paths matching several
+// strings, such as "tags[*]", get one entry per match suffixed with its index.
+function extractTexts(
+  value: Record<string, unknown>,
+  fields: string[]
+): [string, string][] {
+  return fields.flatMap((field): [string, string][] => {
+    if (field === "$") {
+      return [[field, JSON.stringify(value)]];
+    }
+    const texts = getTextAtPath(value, field);
+    return texts.length === 1
+      ? [[field, texts[0]]]
+      : texts.map((text, i) => [`${field}.${i}`, text]);
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Tag values are escaped, so labels can hold any character without breaking
+// the tag separator or query syntax
+function toNamespaceTag(namespace: string[]): string {
+  return namespace.map(encodeURIComponent).join(".");
+}
+
+function escapeTagQuery(value: string): string {
+  return value.replace(/[^A-Za-z0-9_]/g, "\\$&");
+}
+
+// Checks a namespace against a listNamespaces() prefix or suffix, where "*"
+// matches any single label
+function matchesCondition(
+  namespace: string[],
+  { matchType, path }: MatchCondition
+): boolean {
+  if (path.length > namespace.length) {
+    return false;
+  }
+  const offset = matchType === "suffix" ? namespace.length - path.length : 0;
+  return path.every(
+    (label, index) => label === "*" || label === namespace[offset + index]
+  );
+}
+
+/**
+ * LangGraph `BaseStore` for long-term memory, backed by the same Redis
+ * deployment as `RedisSaver`. Each item is a hash holding its JSON value,
+ * indexed per namespace in a sorted set scored by its expiry time, so
+ * expired items drop out of search() and listNamespaces() right away.
+ */
+export class RedisStore extends BaseStore {
+  connection: Redis | Cluster;
+  ttl?: number;
+  indexConfig?: RedisStoreIndexConfig;
+  keySchema: RedisStoreKeySchema;
+  isCluster: boolean;
+
+  // Resolves to whether RediSearch serves queries, once the index exists
+  private vectorIndex?: Promise<boolean>;
+
+  constructor({ connection, ttl, index, keyPrefix, keySchema }: RedisStoreParams) {
+    super();
+
+    if (!connection) {
+      throw new CheckpointValidationError(
+        "RedisStore requires a valid Redis connection. Got: undefined",
+        { operation: "constructor" }
+      );
+    }
+    if (ttl !== undefined) {
+      if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0) {
+        throw new CheckpointValidationError(
+          `Invalid TTL value: ${ttl}. TTL must be a positive integer (seconds).`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
+    if (index) {
+      if (typeof index.dims !== 'number' || !Number.isInteger(index.dims) || index.dims <= 0) {
+        throw new CheckpointValidationError(
+          `Invalid index dims value: ${index.dims}. It must be a positive integer.`,
+          { operation: "constructor" }
+        );
+      }
+      const { vectorSearch = "auto" } = index;
+      if (vectorSearch !== "auto" && vectorSearch !== "redisearch" && vectorSearch !== "brute-force") {
+        throw new CheckpointValidationError(
+          `Invalid vectorSearch value: ${vectorSearch}. Expected "auto", "redisearch" or "brute-force".`,
+          { operation: "constructor" }
+        );
+      }
+    }
+
+    // In cluster mode the items of a namespace share a hash tag with its
+    // index, while the global namespace set is updated separately
+    this.isCluster = "isCluster" in connection && connection.isCluster;
+    this.connection = connection;
+    this.ttl = ttl;
+    this.indexConfig = index;
+    this.keySchema = {
+      ...createRedisStoreKeySchema(keyPrefix, { hashTags: this.isCluster }),
+      ...keySchema,
+    };
+  }
+
+  /**
+   * Stores an item. Pass `ttl` in seconds to expire it independently of the
+   * store's default TTL.
+   */
+  async put(
+    namespace: string[],
+    key: string,
+    value: Record<string, any>,
+    index?: false | string[],
+    { ttl }: { ttl?: number } = {}
+  ): Promise<void> {
+    await this.batch([{ namespace, key, value, index, ttl }]);
+  }
+
+  /**
+   * Runs the operations in one round of Redis calls. Like `InMemoryStore`,
+   * reads see the data from before the batch, and only the last put of each
+   * item is applied. Texts and queries are embedded in one call each.
+   */
+  async batch<Op extends Operation[]>(
+    operations: Op
+  ): Promise<OperationResults<Op>> {
+    const puts = new Map<string, RedisStorePutOperation>();
+    const queries = new Set<string>();
+    for (const op of operations) {
+      if ("value" in op) {
+        const put = op as RedisStorePutOperation;
+        validateNamespace(put.namespace);
+        if (put.ttl !== undefined) {
+          if (typeof put.ttl !== 'number' || !Number.isInteger(put.ttl) || put.ttl <= 0) {
+            throw new CheckpointValidationError(
+              `Invalid TTL value: ${put.ttl}. TTL must be a positive integer (seconds).`,
+              { operation: "batch", key: put.key }
+            );
+          }
+        }
+        puts.set(JSON.stringify([put.namespace, put.key]), put);
+      } else if ("namespacePrefix" in op) {
+        validatePageOption("limit", op.limit ?? 10, 1);
+        validatePageOption("offset", op.offset ?? 0, 0);
+        if (op.query && this.indexConfig) {
+          queries.add(op.query);
+        }
+      } else if (!("key" in op)) {
+        validatePageOption("limit", op.limit ?? 100, 1);
+        validatePageOption("offset", op.offset ?? 0, 0);
+      }
+    }
+
+    try {
+      const queryVectors = new Map<string, number[]>();
+      if (queries.size > 0) {
+        const vectors = await this._embed(Array.from(queries), "query");
+        Array.from(queries).forEach((query, i) => queryVectors.set(query, vectors[i]));
+      }
+
+      const results = await Promise.all(
+        operations.map((op) => {
+          if ("value" in op) {
+            return undefined;
+          }
+          if ("namespacePrefix" in op) {
+            return this._search(op, op.query ? queryVectors.get(op.query) : undefined);
+          }
+          if ("key" in op) {
+            return this._get(op);
+          }
+          return this._listNamespaces(op);
+        })
+      );
+
+      const putVectors = await this._embedPuts(Array.from(puts.values()));
+      await Promise.all(
+        Array.from(puts.values(), (op, i) => this._put(op, putVectors[i]))
+      );
+      return results as OperationResults<Op>;
+    } catch (error) {
+      throw wrapRedisError(error, "Failed to run store batch", "", {
+        operation: "batch",
+      });
+    }
+  }
+
+  private async _get({ namespace, key }: GetOperation): Promise<Item | null> {
+    return (await this._readItem(namespace, key))?.item ?? null;
+  }
+
+  private async _put(
+    { namespace, key, value, ttl = this.ttl }: RedisStorePutOperation,
+    vectors: Map<string, number[]>
+  ): Promise<void> {
+    const itemKey = this.keySchema.itemKey(namespace, key);
+    const indexKey = this.keySchema.namespaceKey(namespace);
+    const updatedKey = this.keySchema.namespaceUpdatedKey(namespace);
+
+    // Every write also drops the expired members of its namespace, so the
+    // indexes do not grow with items that are long gone
+    const now = Date.now();
+    await this.connection.eval(PRUNE_EXPIRED_SCRIPT, 2, indexKey, updatedKey, now);
+
+    // Vectors of fields that are no longer embedded are removed with the
+    // write. Without an index config no vectors are ever written.
+    const previousPaths = this.indexConfig
+      ? this._parseVectorPaths(itemKey, await this.connection.hget(itemKey, "vector_paths"))
+      : [];
+    const stalePaths = previousPaths.filter((path) => !vectors.has(path));
+    const transaction = this.connection.multi();
+    for (const path of stalePaths) {
+      transaction.del(this.keySchema.vectorKey(namespace, key, path));
+    }
+
+    if (value === null) {
+      transaction.del(itemKey).zrem(indexKey, key).zrem(updatedKey, key);
+      await execTransaction(transaction);
+      return;
+    }
+
+    transaction
+      .hsetnx(itemKey, "created_at", now)
+      .hset(itemKey, {
+        value: JSON.stringify(value),
+        key,
+        namespace: JSON.stringify(namespace),
+        updated_at: now,
+      })
+      .zadd(indexKey, ttl ? now + ttl * 1000 : "+inf", key)
+      .zadd(updatedKey, now, key);
+    if (vectors.size > 0) {
+      transaction.hset(itemKey, "vector_paths", JSON.stringify(Array.from(vectors.keys())));
+    } else {
+      transaction.hdel(itemKey, "vector_paths");
+    }
+
+    const keys = [itemKey];
+    for (const [path, vector] of vectors) {
+      const vectorKey = this.keySchema.vectorKey(namespace, key, path);
+      transaction.hset(vectorKey, {
+        embedding: encodeRedisVector(vector),
+        namespace: JSON.stringify(namespace),
+        namespace_tag: toNamespaceTag(namespace),
+        key,
+        path,
+      });
+      keys.push(vectorKey);
+    }
+    for (const redisKey of keys) {
+      if (ttl) {
+        transaction.expire(redisKey, ttl);
+      } else {
+        transaction.persist(redisKey);
+      }
+    }
+
+    // Namespaces stay registered after their items are gone, since removing
+    // them could race with a concurrent put. Empty ones are skipped on read.
+    if (!this.isCluster) {
+      transaction.zadd(this.keySchema.namespacesKey(), 0, namespace.join("."));
+    }
+    await execTransaction(transaction);
+    if (this.isCluster) {
+      await this.connection.zadd(
+        this.keySchema.namespacesKey(),
+        0,
+        namespace.join(".")
+      );
+    }
+  }
+
+  private async _search(
+    op: SearchOperation,
+    queryVector?: number[]
+  ): Promise<SearchItem[]> {
+    const { limit = 10, offset = 0 } = op;
+    if (queryVector) {
+      return (await this._useVectorIndex())
+        ? this._searchVectorIndex(op, queryVector)
+        : this._searchBruteForce(op, queryVector);
+    }
+
+    const items = await this._readMatchingItems(
+      this._iterateRecentItemRefs(op.namespacePrefix),
+      op.filter,
+      offset + limit
+    );
+    return items
+      .slice(offset, offset + limit)
+      .map(({ item }) => ({ ...item, score: undefined }));
+  }
+
+  // Scores every candidate item against the query, for servers without
+  // RediSearch. Items are ranked by their best matching field, and only the
+  // best ranked ones are loaded to fill the page.
+  private async _searchBruteForce(
+    op: SearchOperation,
+    queryVector: number[]
+  ): Promise<SearchItem[]> {
+    const { limit = 10, offset = 0 } = op;
+    const scored = await Promise.all(
+      (await this._loadItemRefs(op.namespacePrefix)).map(async ({ namespace, key }) => {
+        const itemKey = this.keySchema.itemKey(namespace, key);
+        const vectorPaths = this._parseVectorPaths(
+          itemKey,
+          await this.connection.hget(itemKey, "vector_paths")
+        );
+        const vectors = await Promise.all(
+          vectorPaths.map((path) =>
+            this.connection.hgetBuffer(
+              this.keySchema.vectorKey(namespace, key, path),
+              "embedding"
+            )
+          )
+        );
+        const scores = vectors
+          .filter((vector) => vector !== null)
+          .map((vector) => cosineSimilarity(queryVector, decodeRedisVector(vector)));
+        return { namespace, key, score: scores.length ? Math.max(...scores) : undefined };
+      })
+    );
+    const ranked = scored
+      .filter((ref): ref is ItemRef & { score: number } => ref.score !== undefined)
+      .sort((a, b) => b.score - a.score);
+    const items = await this._readMatchingItems(ranked, op.filter, offset + limit);
+    return items
+      .slice(offset, offset + limit)
+      .map(({ item, score }) => ({ ...item, score }));
+  }
+
+  // Runs a KNN query against the vector index. Metadata filters are applied
+  // to the nearest vectors afterwards, so the query widens until enough
+  // items match or the index has no more vectors.
+  private async _searchVectorIndex(
+    { namespacePrefix, filter, limit = 10, offset = 0 }: SearchOperation,
+    queryVector: number[]
+  ): Promise<SearchItem[]> {
+    const tag = escapeTagQuery(toNamespaceTag(namespacePrefix));
+    const scope = namespacePrefix.length
+      ? `@namespace_tag:{${tag} | ${tag}\\.*}`
+      : "*";
+    const wanted = offset + limit;
+
+    for (let k = wanted * 2; ; k *= 2) {
+      const reply = (await this.connection.call(
+        "FT.SEARCH",
+        this.keySchema.vectorIndexName(),
+        `${scope}=>[KNN ${k} @embedding $vector AS distance]`,
+        "PARAMS", "2", "vector", encodeRedisVector(queryVector),
+        "SORTBY", "distance",
+        "RETURN", "3", "namespace", "key", "distance",
+        "LIMIT", "0", String(k),
+        "DIALECT", "2"
+      )) as [number, ...(string | string[])[]];
+
+      // Keep the nearest vector of each item
+      const nearest = new Map<string, { namespace: string[]; key: string; score: number }>();
+      for (let i = 2; i < reply.length; i += 2) {
+        const fields = reply[i] as string[];
+        const document: Record<string, string> = {};
+        for (let j = 0; j < fields.length; j += 2) {
+          document[fields[j]] = fields[j + 1];
+        }
+        const id = JSON.stringify([document.namespace, document.key]);
+        if (!nearest.has(id)) {
+          nearest.set(id, {
+            namespace: JSON.parse(document.namespace),
+            key: document.key,
+            score: 1 - Number(document.distance),
+          });
+        }
+      }
+
+      const items = (
+        await Promise.all(
+          Array.from(nearest.values(), async ({ namespace, key, score }) => {
+            const loaded = await this._readItem(namespace, key);
+            return loaded && { ...loaded.item, score };
+          })
+        )
+      ).filter(
+        (item): item is NonNullable<typeof item> =>
+          item !== null &&
+          namespacePrefix.every((label, i) => item.namespace[i] === label) &&
+          (!filter || matchesFilter(item.value, filter))
+      );
+
+      const exhausted = (reply.length - 1) / 2 < k;
+      if (items.length >= wanted || exhausted) {
+        return items.slice(offset, wanted);
+      }
+    }
+  }
+
+  // Checks once whether RediSearch is available and creates the vector index
+  // if needed. Vectors written before the index existed are indexed by
+  // RediSearch in the background.
+  private _useVectorIndex(): Promise<boolean> {
+    const { vectorSearch = "auto" } = this.indexConfig as RedisStoreIndexConfig;
+    if (vectorSearch === "brute-force") {
+      return Promise.resolve(false);
+    }
+    this.vectorIndex ??= this._createVectorIndex(vectorSearch).catch((error) => {
+      this.vectorIndex = undefined;
+      throw error;
+    });
+    return this.vectorIndex;
+  }
+
+  private async _createVectorIndex(
+    vectorSearch: "auto" | "redisearch"
+  ): Promise<boolean> {
+    const indexName = this.keySchema.vectorIndexName();
+    try {
+      await this.connection.call("FT.INFO", indexName);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (UNKNOWN_COMMAND_ERROR.test(message)) {
+        if (vectorSearch === "redisearch") {
+          throw new CheckpointValidationError(
+            `The "redisearch" vectorSearch backend requires the RediSearch module: ${message}`,
+            { cause: error, operation: "search" }
+          );
+        }
+        return false;
+      }
+      if (!UNKNOWN_INDEX_ERROR.test(message)) {
+        throw error;
+      }
+    }
+
+    try {
+      await this.connection.call(
+        "FT.CREATE", indexName,
+        "ON", "HASH",
+        "PREFIX", "1", this.keySchema.vectorKeyPrefix(),
+        "SCHEMA",
+        "namespace_tag", "TAG", "CASESENSITIVE",
+        "embedding", "VECTOR", "FLAT", "6",
+        "TYPE", "FLOAT32",
+        "DIM", String(this.indexConfig?.dims),
+        "DISTANCE_METRIC", "COSINE"
+      );
+    } catch (error) {
+      // Another store created it first
+      if (!/index already exists/i.test(error instanceof Error ? error.message : String(error))) {
+        throw error;
+      }
+    }
+    return true;
+  }
+
+  // Embeds the indexed fields of each put, returning the vectors by field
+  // path. Puts with `index: false`, deletes, and stores without an index
+  // config get no vectors.
+  private async _embedPuts(
+    puts: RedisStorePutOperation[]
+  ): Promise<Map<string, number[]>[]> {
+    const texts = puts.map(({ value, index }) =>
+      value === null || index === false || !this.indexConfig
+        ? []
+        : extractTexts(value, index ?? this.indexConfig.fields ?? ["$"])
+    );
+    const unique = Array.from(new Set(texts.flat().map(([, text]) => text)));
+    if (unique.length === 0) {
+      return puts.map(() => new Map());
+    }
+    const embeddings = await this._embed(unique, "documents");
+    const vectors = new Map(unique.map((text, i) => [text, embeddings[i]]));
+    return texts.map(
+      (entries) =>
+        new Map(entries.map(([path, text]) => [path, vectors.get(text) as number[]]))
+    );
+  }
+
+  private async _embed(
+    texts: string[],
+    kind: "documents" | "query"
+  ): Promise<number[][]> {
+    const { embeddings, dims } = this.indexConfig as RedisStoreIndexConfig;
+    let vectors: number[][];
+    if (typeof embeddings === "function") {
+      vectors = await embeddings(texts);
+    } else if (kind === "query") {
+      vectors = await Promise.all(texts.map((text) => embeddings.embedQuery(text)));
+    } else {
+      vectors = await embeddings.embedDocuments(texts);
+    }
+
+    for (const vector of vectors) {
+      if (vector?.length !== dims) {
+        throw new CheckpointValidationError(
+          `Expected embeddings with ${dims} dimensions. Got: ${vector?.length}`,
+          { operation: "batch" }
+        );
+      }
+    }
+    if (vectors.length !== texts.length) {
+      throw new CheckpointValidationError(
+        `Expected ${texts.length} embeddings. Got: ${vectors.length}`,
+        { operation: "batch" }
+      );
+    }
+    return vectors;
+  }
+
+  // Lists the keys of the live items below a namespace prefix
+  private async _loadItemRefs(namespacePrefix: string[]): Promise<ItemRef[]> {
+    const namespaces = await this._loadNamespaces(namespacePrefix);
+    const now = Date.now();
+
+    const keys = await Promise.all(
+      namespaces.map((namespace) =>
+        this.connection.zrangebyscore(
+          this.keySchema.namespaceKey(namespace),
+          `(${now}`,
+          "+inf"
+        )
+      )
+    );
+    return namespaces.flatMap((namespace, i) =>
+      keys[i].map((key) => ({ namespace, key }))
+    );
+  }
+
+  // Yields the items below a namespace prefix, most recently updated first.
+  // The update index of each namespace is read one batch at a time and the
+  // namespaces are merged, so a page reads about as many entries as it
+  // returns instead of every item below the prefix. Items that expired but
+  // were not pruned yet are still yielded, and reading them finds nothing.
+  private async *_iterateRecentItemRefs(
+    namespacePrefix: string[]
+  ): AsyncGenerator<ItemRef> {
+    const cursors = (await this._loadNamespaces(namespacePrefix)).map((namespace) => ({
+      namespace,
+      entries: [] as [string, number][],
+      offset: 0,
+      done: false,
+    }));
+
+    const fill = async (cursor: (typeof cursors)[number]) => {
+      while (cursor.entries.length === 0 && !cursor.done) {
+        const reply = await this.connection.zrevrange(
+          this.keySchema.namespaceUpdatedKey(cursor.namespace),
+          cursor.offset,
+          cursor.offset + SEARCH_BATCH_SIZE - 1,
+          "WITHSCORES"
+        );
+        cursor.offset += SEARCH_BATCH_SIZE;
+        cursor.done = reply.length < SEARCH_BATCH_SIZE * 2;
+        for (let i = 0; i < reply.length; i += 2) {
+          cursor.entries.push([reply[i], Number(reply[i + 1])]);
+        }
+      }
+    };
+
+    await Promise.all(cursors.map(fill));
+    for (;;) {
+      let next: (typeof cursors)[number] | undefined;
+      for (const cursor of cursors) {
+        if (cursor.entries.length > 0 && (!next || cursor.entries[0][1] > next.entries[0][1])) {
+          next = cursor;
+        }
+      }
+      if (!next) {
+        return;
+      }
+      const [[key]] = next.entries.splice(0, 1);
+      yield { namespace: next.namespace, key };
+      await fill(next);
+    }
+  }
+
+  // Reads items in the given order until `count` of them exist and match the
+  // filter
+  private async _readMatchingItems<T extends ItemRef>(
+    refs: AsyncIterable<T> | Iterable<T>,
+    filter: SearchOperation["filter"],
+    count: number
+  ): Promise<(T & { item: Item })[]> {
+    const matched: (T & { item: Item })[] = [];
+    let batch: T[] = [];
+    const readBatch = async () => {
+      const loaded = await Promise.all(
+        batch.map(({ namespace, key }) => this._readItem(namespace, key))
+      );
+      batch.forEach((ref, i) => {
+        const item = loaded[i]?.item;
+        if (item && (!filter || matchesFilter(item.value, filter))) {
+          matched.push({ ...ref, item });
+        }
+      });
+      batch = [];
+    };
+
+    for await (const ref of refs) {
+      batch.push(ref);
+      if (batch.length >= (filter ? SEARCH_BATCH_SIZE : count - matched.length)) {
+        await readBatch();
+        if (matched.length >= count) {
+          return matched;
+        }
+      }
+    }
+    await readBatch();
+    return matched;
+  }
+
+  private async _listNamespaces({
+    matchConditions = [],
+    maxDepth,
+    limit = 100,
+    offset = 0,
+  }: ListNamespacesOperation): Promise<string[][]> {
+    const now = Date.now();
+    const candidates = (await this._loadNamespaces([])).filter((namespace) =>
+      matchConditions.every((condition) => matchesCondition(namespace, condition))
+    );
+    const counts = await Promise.all(
+      candidates.map((namespace) =>
+        this.connection.zcount(
+          this.keySchema.namespaceKey(namespace),
+          `(${now}`,
+          "+inf"
+        )
+      )
+    );
+
+    const namespaces = new Map<string, string[]>();
+    candidates.forEach((namespace, i) => {
+      if (counts[i] > 0) {
+        const truncated =
+          maxDepth === undefined ? namespace : namespace.slice(0, maxDepth);
+        namespaces.set(truncated.join("."), truncated);
+      }
+    });
+    return Array.from(namespaces.keys())
+      .sort()
+      .slice(offset, offset + limit)
+      .map((joined) => namespaces.get(joined) as string[]);
+  }
+
+  // Reads the registered namespaces that start with the given labels
+  private async _loadNamespaces(prefix: string[]): Promise<string[][]> {
+    const joined = prefix.join(".");
+    // Members equal to the prefix or continuing with "." sort between the
+    // prefix and the prefix followed by "/", the next character after "."
+    const members = joined
+      ? await this.connection.zrangebylex(
+          this.keySchema.namespacesKey(),
+          `[${joined}`,
+          `(${joined}/`
+        )
+      : await this.connection.zrange(this.keySchema.namespacesKey(), 0, -1);
+    return members
+      .map((member) => member.split("."))
+      .filter((namespace) =>
+        prefix.every((label, index) => namespace[index] === label)
+      );
+  }
+
+  private async _readItem(
+    namespace: string[],
+    key: string
+  ): Promise<{ item: Item; vectorPaths: string[] } | null> {
+    const itemKey = this.keySchema.itemKey(namespace, key);
+    const data = await this.connection.hgetall(itemKey);
+    if (data.value === undefined) {
+      return null;
+    }
+    try {
+      return {
+        item: {
+          value: JSON.parse(data.value),
+          key: data.key,
+          namespace: JSON.parse(data.namespace),
+          createdAt: new Date(Number(data.created_at)),
+          updatedAt: new Date(Number(data.updated_at)),
+        },
+        vectorPaths: this._parseVectorPaths(itemKey, data.vector_paths),
+      };
+    } catch (error) {
+      if (error instanceof RedisCheckpointError) {
+        throw error;
+      }
+      throw new CheckpointSerializationError(
+        `Failed to parse store item: ${error instanceof Error ? error.message : String(error)}. Key: ${itemKey}`,
+        { cause: error, operation: "batch", key: itemKey }
+      );
+    }
+  }
+
+  private _parseVectorPaths(itemKey: string, paths?: string | null): string[] {
+    if (!paths) {
+      return [];
+    }
+    try {
+      return JSON.parse(paths);
+    } catch (error) {
+      throw new CheckpointSerializationError(
+        `Failed to parse store item vector paths: ${error instanceof Error ? error.message : String(error)}. Key: ${itemKey}`,
+        { cause: error, operation: "batch", key: itemKey }
+      );
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, before, after } from "node:test";
+import { strict as assert } from "node:assert";
+import { Readable, Writable } from "node:stream";
+import { Checkpoint, uuid6 } from "@langchain/langgraph-checkpoint";
+import Redis from "ioredis-mock";
+
+import { runCli } from "../cli.js";
+import { RedisSaver } from "../redis-saver.js";
+
+const redisClient = new Redis();
+const saver = new RedisSaver({ connection: redisClient });
+
+const makeCheckpoint = (id: string, value: string): Checkpoint => ({
+  v: 1,
+  id,
+  ts: "2024-04-19T17:19:07.952Z",
+  channel_values: { someKey: value },
+  channel_versions: {},
+  versions_seen: {},
+  pending_sends: [],
+});
+const checkpoint1 = makeCheckpoint(uuid6(-1), "first");
+const checkpoint2 = makeCheckpoint(uuid6(1), "second");
+
+async function run(args: string[], input = "") {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(args, {
+    connection: redisClient,
+    stdin: Readable.from(input ? [input] : []),
+    stdout: new Writable({
+      write(chunk, _, callback) {
+        stdout += chunk;
+        callback();
+      },
+    }),
+    stderr: new Writable({
+      write(chunk, _, callback) {
+        stderr += chunk;
+        callback();
+      },
+    }),
+  });
+  return { code, stdout, stderr };
+}
+
+before(async () => {
+  await redisClient.flushall();
+  const config = await saver.put(
+    { configurable: { thread_id: "cli-1" } },
+    checkpoint1,
+    { source: "input", step: -1, writes: null }
+  );
+  await saver.putWrites(config, [["channel", "value"]], "task1");
+  await saver.put(config, checkpoint2, { source: "loop", step: 0, parents: {} });
+  await saver.put(
+    { configurable: { thread_id: "cli-2" } },
+    checkpoint1,
+    { source: "input", step: -1, writes: null }
+  );
+});
+
+after(async () => {
+  await redisClient.quit();
+});
+
+await describe("checkpoint-redis CLI", async () => {
+  await it("should list threads and checkpoints", async () => {
+    const threads = await run(["threads", "--json"]);
+    assert.strictEqual(threads.code, 0);
+    assert.deepEqual(
+      JSON.parse(threads.stdout).threads.map(
+        (thread: { thread_id: string }) => thread.thread_id
+      ).sort(),
+      ["cli-1", "cli-2"]
+    );
+
+    const list = await run(["list", "cli-1", "--json"]);
+    assert.deepEqual(JSON.parse(list.stdout), [
+      {
+        checkpoint_ns: "",
+        checkpoint_id: checkpoint2.id,
+        parent_checkpoint_id: checkpoint1.id,
+        ts: checkpoint2.ts,
+        source: "loop",
+        step: 0,
+      },
+      {
+        checkpoint_ns: "",
+        checkpoint_id: checkpoint1.id,
+        ts: checkpoint1.ts,
+        source: "input",
+        step: -1,
+      },
+    ]);
+
+    const text = await run(["list", "cli-1", "--limit", "1"]);
+    assert.match(text.stdout, new RegExp(`^${checkpoint2.id} .* loop step 0\n$`));
+  });
+
+  await it("should print deserialized checkpoints", async () => {
+    const latest = await run(["show", "cli-1"]);
+    assert.strictEqual(latest.code, 0);
+    assert.deepEqual(JSON.parse(latest.stdout).checkpoint, checkpoint2);
+    assert.ok(latest.stdout.includes('\n  "checkpoint": {'), "Output should be indented");
+
+    const first = await run(["show", "cli-1", checkpoint1.id, "--json"]);
+    assert.deepEqual(JSON.parse(first.stdout).pendingWrites, [
+      ["task1", "channel", "value"],
+    ]);
+
+    const missing = await run(["show", "cli-missing"]);
+    assert.strictEqual(missing.code, 1);
+    assert.match(missing.stderr, /Checkpoint not found. Thread: cli-missing/);
+  });
+
+  await it("should report stats", async () => {
+    // Stats read the indexes instead of scanning the keyspace
+    const scan = redisClient.scan;
+    let scans = 0;
+    redisClient.scan = ((...args: Parameters<typeof scan>) => {
+      scans += 1;
+      return scan.apply(redisClient, args);
+    }) as typeof scan;
+    let stats: { stdout: string };
+    let threadStats: any;
+    try {
+      stats = await run(["stats", "--json"]);
+      threadStats = JSON.parse((await run(["stats", "cli-1", "--json"])).stdout);
+    } finally {
+      redisClient.scan = scan;
+    }
+    assert.strictEqual(scans, 0);
+    assert.deepEqual(JSON.parse(stats.stdout), {
+      threads: 2,
+      checkpoints: 3,
+      writes: 1,
+    });
+    assert.strictEqual(threadStats.checkpoints, 2);
+    assert.strictEqual(threadStats.writes, 1);
+    assert.deepEqual(threadStats.namespaces, { "": 2 });
+  });
+
+  await it("should export, import, prune and delete threads", async () => {
+    const exported = await run(["export", "cli-1"]);
+    assert.strictEqual(exported.code, 0);
+    assert.strictEqual(JSON.parse(exported.stdout.split("\n")[0]).type, "thread");
+
+    const imported = await run(
+      ["import", "--thread", "cli-copy", "--json"],
+      exported.stdout
+    );
+    assert.deepEqual(JSON.parse(imported.stdout), {
+      thread_id: "cli-copy",
+      checkpoints: 2,
+      writes: 1,
+      skipped: 0,
+    });
+
+    const pruned = await run(["prune", "cli-copy", "--max-checkpoints", "1", "--json"]);
+    assert.deepEqual(JSON.parse(pruned.stdout), { thread_id: "cli-copy", removed: 1 });
+
+    const deleted = await run(["delete", "cli-copy"]);
+    assert.strictEqual(deleted.stdout, "Deleted thread cli-copy\n");
+    assert.deepEqual(await redisClient.keys("*cli-copy*"), []);
+  });
+
+  await it("should reject invalid arguments", async () => {
+    const help = await run(["--help"]);
+    assert.strictEqual(help.code, 0);
+    assert.match(help.stdout, /^Usage: checkpoint-redis/);
+
+    for (const args of [
+      [],
+      ["unknown"],
+      ["list"],
+      ["prune", "cli-1"],
+      ["threads", "--limit", "0"],
+      ["threads", "--unknown"],
+    ]) {
+      assert.strictEqual((await run(args)).code, 2, `${args.join(" ")} should fail`);
+    }
+  });
+});
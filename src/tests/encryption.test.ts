@@ -0,0 +1,115 @@
+import { strict as assert } from "node:assert";
+import { randomBytes } from "node:crypto";
+import { describe, it } from "node:test";
+import { JsonPlusSerializer } from "../../node_modules/@langchain/langgraph-checkpoint/dist/serde/jsonplus.js";
+
+import { EncryptedSerializer, StaticKeyProvider } from "../encryption.js";
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "../errors.js";
+
+const serde = new JsonPlusSerializer();
+const keys = { key1: randomBytes(32), key2: randomBytes(32) };
+
+await describe("Redis Checkpoint Encryption", async () => {
+  await describe("EncryptedSerializer", async () => {
+    await it("should round-trip values through AES-256-GCM", async () => {
+      const encrypted = new EncryptedSerializer(
+        serde,
+        new StaticKeyProvider({ keys, currentKeyId: "key1" })
+      );
+      const value = { user: "jane@example.com", messages: ["hi"] };
+
+      const [type, data] = await encrypted.dumpsTyped(value);
+      assert.equal(type, "encrypted:json");
+      assert.ok(!Buffer.from(data).toString("latin1").includes("jane@example.com"));
+      assert.equal(encrypted.getKeyId(type, data), "key1");
+      assert.deepEqual(await encrypted.loadsTyped(type, data), value);
+
+      // Every record gets its own IV
+      const [, other] = await encrypted.dumpsTyped(value);
+      assert.notDeepEqual(other, data);
+    });
+
+    await it("should read records written without encryption", async () => {
+      const encrypted = new EncryptedSerializer(
+        serde,
+        new StaticKeyProvider({ keys, currentKeyId: "key1" })
+      );
+      const [type, data] = await serde.dumpsTyped({ step: 1 });
+      assert.equal(encrypted.getKeyId(type, data), undefined);
+      assert.deepEqual(await encrypted.loadsTyped(type, data), { step: 1 });
+    });
+
+    await it("should re-encrypt records with the current key", async () => {
+      const keyProvider = new StaticKeyProvider({ keys, currentKeyId: "key1" });
+      const encrypted = new EncryptedSerializer(serde, keyProvider);
+      const [type, data] = await encrypted.dumpsTyped({ step: 1 });
+
+      keyProvider.currentKeyId = "key2";
+      const [newType, newData] = await encrypted.reencrypt(type, data);
+      assert.equal(newType, type);
+      assert.equal(encrypted.getKeyId(newType, newData), "key2");
+      assert.deepEqual(await encrypted.loadsTyped(newType, newData), { step: 1 });
+
+      const [plainType, plainData] = await serde.dumpsTyped({ step: 2 });
+      const [encryptedType, encryptedData] = await encrypted.reencrypt(
+        plainType,
+        plainData
+      );
+      assert.equal(encrypted.getKeyId(encryptedType, encryptedData), "key2");
+      assert.deepEqual(
+        await encrypted.loadsTyped(encryptedType, encryptedData),
+        { step: 2 }
+      );
+    });
+
+    await it("should reject unknown keys and tampered records", async () => {
+      const encrypted = new EncryptedSerializer(
+        serde,
+        new StaticKeyProvider({ keys, currentKeyId: "key1" })
+      );
+      const [type, data] = await encrypted.dumpsTyped({ step: 1 });
+
+      const withoutKey = new EncryptedSerializer(
+        serde,
+        new StaticKeyProvider({ keys: { key2: keys.key2 }, currentKeyId: "key2" })
+      );
+      await assert.rejects(
+        () => withoutKey.loadsTyped(type, data),
+        (error: any) => {
+          assert.ok(error instanceof CheckpointSerializationError);
+          assert.match(error.message, /Unknown encryption key: key1/);
+          return true;
+        }
+      );
+
+      const tampered = Uint8Array.from(data);
+      tampered[tampered.length - 1] ^= 1;
+      await assert.rejects(
+        () => encrypted.loadsTyped(type, tampered),
+        /Failed to decrypt record with key: key1/
+      );
+
+      // The type is authenticated as well
+      await assert.rejects(
+        () => encrypted.loadsTyped("encrypted:bytes", data),
+        /Failed to decrypt record with key: key1/
+      );
+    });
+  });
+
+  await describe("StaticKeyProvider", async () => {
+    await it("should require the current key to exist", async () => {
+      assert.throws(
+        () => new StaticKeyProvider({ keys, currentKeyId: "key3" }),
+        (error: any) => {
+          assert.ok(error instanceof CheckpointValidationError);
+          assert.match(error.message, /Unknown current key ID: key3/);
+          return true;
+        }
+      );
+    });
+  });
+});
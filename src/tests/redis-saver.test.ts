@@ -1,5 +1,7 @@
 import { describe, it, before, after } from "node:test";
 import { strict as assert } from "node:assert";
+import { setTimeout as sleep } from "node:timers/promises";
+import { randomBytes } from "node:crypto";
 import {
   Checkpoint,
   CheckpointTuple,
@@ -8,6 +10,15 @@ import {
 import Redis from "ioredis-mock";
 
 import { RedisSaver } from "../redis-saver.js";
+import { EncryptedSerializer, StaticKeyProvider } from "../encryption.js";
+import {
+  CheckpointConflictError,
+  CheckpointSerializationError,
+  CheckpointValidationError,
+  RedisCheckpointCircuitOpenError,
+  RedisCheckpointConnectionError,
+  RedisCheckpointError,
+} from "../errors.js";
 
 const redisClient = new Redis();
 const saver = new RedisSaver({ connection: redisClient });
@@ -147,11 +158,11 @@ await describe("RedisSaver", async () => {
 
     assert.strictEqual(
       checkpointTuple1.checkpoint.ts,
-      "2024-04-19T17:19:07.952Z"
+      "2024-04-20T17:19:07.952Z"
     );
     assert.strictEqual(
       checkpointTuple2.checkpoint.ts,
-      "2024-04-20T17:19:07.952Z"
+      "2024-04-19T17:19:07.952Z"
     );
   });
 
@@ -184,169 +195,2522 @@ await describe("RedisSaver", async () => {
     assert.ok(ttl > 0, "TTL should be set on checkpoint key");
   });
 
-  await it("should validate constructor parameters", async () => {
-    // Test missing connection
-    assert.throws(
-      () => new RedisSaver({ connection: undefined as any }),
-      /RedisSaver requires a valid Redis connection/
-    );
+  await it("should page through checkpoints with limit and before", async () => {
+    await redisClient.flushall();
 
-    // Test invalid TTL values
-    assert.throws(
-      () => new RedisSaver({ connection: redisClient, ttl: -1 }),
-      /Invalid TTL value: -1/
-    );
+    const ids = [uuid6(-3), uuid6(-2), uuid6(-1)];
+    for (const id of ids) {
+      await saver.put(
+        { configurable: { thread_id: "paging-test" } },
+        { ...checkpoint1, id },
+        { source: "update", step: -1, writes: null }
+      );
+    }
 
-    assert.throws(
-      () => new RedisSaver({ connection: redisClient, ttl: 1.5 }),
-      /Invalid TTL value: 1.5/
-    );
+    const listIds = async (options?: Parameters<typeof saver.list>[1]) => {
+      const result: string[] = [];
+      for await (const tuple of saver.list(
+        { configurable: { thread_id: "paging-test" } },
+        options
+      )) {
+        result.push(tuple.checkpoint.id);
+      }
+      return result;
+    };
 
-    assert.throws(
-      () => new RedisSaver({ connection: redisClient, ttl: "invalid" as any }),
-      /Invalid TTL value: invalid/
+    assert.deepEqual(await listIds(), [ids[2], ids[1], ids[0]]);
+    assert.deepEqual(await listIds({ limit: 1 }), [ids[2]]);
+    assert.deepEqual(await listIds({ limit: 2 }), [ids[2], ids[1]]);
+    assert.deepEqual(
+      await listIds({ before: { configurable: { checkpoint_id: ids[2] } } }),
+      [ids[1], ids[0]]
     );
-
-    // Test valid TTL
-    assert.doesNotThrow(
-      () => new RedisSaver({ connection: redisClient, ttl: 3600 })
+    assert.deepEqual(
+      await listIds({
+        limit: 1,
+        before: { configurable: { checkpoint_id: ids[2] } },
+      }),
+      [ids[1]]
     );
   });
 
-  await it("should validate put() method parameters", async () => {
-    // Test missing config
-    await assert.rejects(
-      () => saver.put(undefined as any, checkpoint1, { source: "update", step: -1, writes: null }),
-      /put\(\) requires a valid RunnableConfig/
+  await it("should list across namespaces and threads newest first", async () => {
+    await redisClient.flushall();
+
+    const ids = [uuid6(-3), uuid6(-2), uuid6(-1), uuid6(0)];
+    const puts: [string, string, string][] = [
+      ["thread-a", "", ids[0]],
+      ["thread-a", "child:1", ids[1]],
+      ["thread-b", "", ids[2]],
+      ["thread-a", "", ids[3]],
+    ];
+    for (const [thread_id, checkpoint_ns, id] of puts) {
+      // Keep the thread index scores distinct
+      await sleep(2);
+      await saver.put(
+        { configurable: { thread_id, checkpoint_ns } },
+        { ...checkpoint1, id },
+        { source: "update", step: -1, parents: {} }
+      );
+    }
+
+    const listConfigs = async (
+      configurable: Record<string, unknown>,
+      options?: Parameters<typeof saver.list>[1]
+    ) => {
+      const result: [string, string, string][] = [];
+      for await (const tuple of saver.list({ configurable }, options)) {
+        const { thread_id, checkpoint_ns, checkpoint_id } =
+          tuple.config.configurable ?? {};
+        result.push([thread_id, checkpoint_ns, checkpoint_id]);
+      }
+      return result;
+    };
+
+    assert.deepEqual(
+      await listConfigs({ thread_id: "thread-a" }),
+      [puts[3], puts[1], puts[0]]
+    );
+    assert.deepEqual(
+      await listConfigs({ thread_id: "thread-a", checkpoint_ns: "child:1" }),
+      [puts[1]]
+    );
+    assert.deepEqual(
+      await listConfigs({ thread_id: "thread-a" }, { limit: 2 }),
+      [puts[3], puts[1]]
+    );
+    assert.deepEqual(
+      await listConfigs({ thread_id: "thread-a", checkpoint_id: ids[1] }),
+      [puts[1]]
     );
 
-    // Test missing checkpoint
-    await assert.rejects(
-      () => saver.put({ configurable: { thread_id: "test" } }, undefined as any, { source: "update", step: -1, writes: null }),
-      /put\(\) requires a valid Checkpoint/
+    // Threads are listed starting with the most recently updated one
+    assert.deepEqual(await listConfigs({}), [
+      puts[3],
+      puts[1],
+      puts[0],
+      puts[2],
+    ]);
+    assert.deepEqual(
+      await listConfigs(
+        {},
+        { before: { configurable: { checkpoint_id: ids[3] } }, limit: 2 }
+      ),
+      [puts[1], puts[0]]
     );
 
-    // Test missing metadata
-    await assert.rejects(
-      () => saver.put({ configurable: { thread_id: "test" } }, checkpoint1, undefined as any),
-      /put\(\) requires valid CheckpointMetadata/
+    await saver.deleteThread("thread-a");
+    assert.deepEqual(await listConfigs({}), [puts[2]]);
+  });
+
+  await it("should filter listed checkpoints by metadata", async () => {
+    await redisClient.flushall();
+
+    const ids = [uuid6(-3), uuid6(-2), uuid6(-1), uuid6(0)];
+    const sources = ["input", "loop", "loop", "loop"] as const;
+    for (const [step, id] of ids.entries()) {
+      await saver.put(
+        { configurable: { thread_id: "filter-test" } },
+        { ...checkpoint1, id },
+        { source: sources[step], step, parents: { "": `parent-${step}` } }
+      );
+    }
+
+    const listIds = async (options?: Parameters<typeof saver.list>[1]) => {
+      const result: string[] = [];
+      for await (const tuple of saver.list(
+        { configurable: { thread_id: "filter-test" } },
+        options
+      )) {
+        result.push(tuple.checkpoint.id);
+      }
+      return result;
+    };
+
+    assert.deepEqual(await listIds({ filter: { source: "input" } }), [ids[0]]);
+    assert.deepEqual(await listIds({ filter: { step: { $gt: 1 } } }), [
+      ids[3],
+      ids[2],
+    ]);
+    assert.deepEqual(
+      await listIds({ filter: { parents: { "": "parent-3" } } }),
+      [ids[3]]
     );
+    assert.deepEqual(
+      await listIds({ filter: { source: "loop" }, limit: 2 }),
+      [ids[3], ids[2]]
+    );
+    assert.deepEqual(await listIds({ filter: { source: "fork" } }), []);
+  });
 
-    // Test missing thread_id
-    await assert.rejects(
-      () => saver.put({ configurable: {} }, checkpoint1, { source: "update", step: -1, writes: null }),
-      /put\(\) requires config.configurable.thread_id to be defined/
+  await it("should read checkpoints without scanning the keyspace", async () => {
+    await redisClient.flushall();
+
+    await saver.put(
+      { configurable: { thread_id: "index-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await saver.putWrites(
+      {
+        configurable: {
+          thread_id: "index-test",
+          checkpoint_ns: "",
+          checkpoint_id: checkpoint1.id,
+        },
+      },
+      [["bar", "baz"]],
+      "foo"
     );
 
-    // Test checkpoint without id
-    const invalidCheckpoint = { ...checkpoint1, id: undefined };
-    await assert.rejects(
-      () => saver.put({ configurable: { thread_id: "test" } }, invalidCheckpoint as any, { source: "update", step: -1, writes: null }),
-      /put\(\) requires checkpoint to have a valid id/
+    const originalKeys = redisClient.keys;
+    redisClient.keys = (() => {
+      throw new Error("keys() must not be called on read paths");
+    }) as any;
+
+    try {
+      const tuple = await saver.getTuple({
+        configurable: { thread_id: "index-test" },
+      });
+      assert.deepEqual(tuple?.checkpoint, checkpoint1);
+      assert.deepEqual(tuple?.pendingWrites, [["foo", "bar", "baz"]]);
+
+      const listed: CheckpointTuple[] = [];
+      for await (const item of saver.list({
+        configurable: { thread_id: "index-test" },
+      })) {
+        listed.push(item);
+      }
+      assert.strictEqual(listed.length, 1);
+    } finally {
+      redisClient.keys = originalKeys;
+    }
+  });
+
+  await it("should save checkpoints and writes in one transaction each", async () => {
+    await redisClient.flushall();
+
+    const originalMulti = redisClient.multi;
+    const originalHset = redisClient.hset;
+    let transactions = 0;
+    redisClient.multi = ((...args: any[]) => {
+      transactions += 1;
+      return originalMulti.apply(redisClient, args as any);
+    }) as any;
+    redisClient.hset = (() => {
+      throw new Error("hset() must only be called inside a transaction");
+    }) as any;
+
+    try {
+      const config = await saverWithTTL.put(
+        { configurable: { thread_id: "atomic-test" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      await saverWithTTL.putWrites(
+        config,
+        [
+          ["bar", "baz"],
+          ["qux", "quux"],
+        ],
+        "foo"
+      );
+    } finally {
+      redisClient.multi = originalMulti;
+      redisClient.hset = originalHset;
+    }
+
+    assert.strictEqual(transactions, 2);
+
+    const writeKeys = await redisClient.smembers(
+      `writes_index:atomic-test::${checkpoint1.id}`
     );
+    assert.strictEqual(writeKeys.length, 2);
+    for (const key of [
+      ...writeKeys,
+      `writes_index:atomic-test::${checkpoint1.id}`,
+      "checkpoint_index:atomic-test:",
+    ]) {
+      assert.ok((await redisClient.ttl(key)) > 0, `TTL should be set on ${key}`);
+    }
   });
 
-  await it("should validate putWrites() method parameters", async () => {
-    // Test missing config
-    await assert.rejects(
-      () => saver.putWrites(undefined as any, [], "task1"),
-      /putWrites\(\) requires a valid RunnableConfig/
+  await it("should reject when a transaction command fails", async () => {
+    const originalMulti = redisClient.multi;
+    redisClient.multi = (() => {
+      const transaction: any = new Proxy(
+        {},
+        {
+          get: (_, prop) =>
+            prop === "exec"
+              ? async () => [[new Error("WRONGTYPE"), null]]
+              : () => transaction,
+        }
+      );
+      return transaction;
+    }) as any;
+
+    try {
+      await assert.rejects(
+        () =>
+          saver.put(
+            { configurable: { thread_id: "atomic-test" } },
+            checkpoint1,
+            { source: "update", step: -1, writes: null }
+          ),
+        (error: any) => {
+          assert.ok(error instanceof RedisCheckpointConnectionError);
+          assert.match(error.message, /Failed to save checkpoint to Redis: WRONGTYPE/);
+          assert.strictEqual(error.cause.message, "WRONGTYPE");
+          assert.strictEqual(error.operation, "put");
+          assert.strictEqual(error.thread_id, "atomic-test");
+          assert.strictEqual(error.checkpoint_id, checkpoint1.id);
+          assert.strictEqual(error.key, `checkpoint:atomic-test::${checkpoint1.id}`);
+          return true;
+        }
+      );
+      await assert.rejects(
+        () =>
+          saver.putWrites(
+            {
+              configurable: {
+                thread_id: "atomic-test",
+                checkpoint_ns: "",
+                checkpoint_id: checkpoint1.id,
+              },
+            },
+            [["bar", "baz"]],
+            "foo"
+          ),
+        /Failed to save writes to Redis: WRONGTYPE/
+      );
+    } finally {
+      redisClient.multi = originalMulti;
+    }
+  });
+
+  await it("should retry transient failures and fail fast while the circuit is open", async () => {
+    await redisClient.flushall();
+
+    const retryingSaver = new RedisSaver({
+      connection: redisClient,
+      retry: { maxAttempts: 3, initialDelayMs: 1 },
+      circuitBreaker: { failureThreshold: 3 },
+    });
+
+    // Fail the first EXEC of every call after its commands were applied, as
+    // if the connection dropped before the reply arrived
+    const originalMulti = redisClient.multi;
+    let failures = 0;
+    let failNext = true;
+    redisClient.multi = function (this: any, ...args: any[]) {
+      const transaction = originalMulti.apply(this, args as any);
+      const exec = transaction.exec.bind(transaction);
+      transaction.exec = async () => {
+        const results = await exec();
+        if (failNext) {
+          failures += 1;
+          failNext = false;
+          throw new Error("READONLY You can't write against a read only replica.");
+        }
+        return results;
+      };
+      return transaction;
+    } as any;
+
+    try {
+      const config = await retryingSaver.put(
+        { configurable: { thread_id: "retry-test" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      failNext = true;
+      await retryingSaver.putWrites(config, [["bar", "baz"], ["qux", "quux"]], "foo");
+      assert.equal(failures, 2);
+    } finally {
+      redisClient.multi = originalMulti;
+    }
+
+    // Retried calls neither duplicate writes nor index entries
+    const tuple = await retryingSaver.getTuple({
+      configurable: { thread_id: "retry-test" },
+    });
+    assert.deepEqual(tuple?.pendingWrites, [
+      ["foo", "bar", "baz"],
+      ["foo", "qux", "quux"],
+    ]);
+    assert.equal(await redisClient.zcard("checkpoint_index:retry-test:"), 1);
+
+    const originalHgetall = redisClient.hgetallBuffer;
+    let calls = 0;
+    redisClient.hgetallBuffer = (async () => {
+      calls += 1;
+      throw Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+    }) as any;
+    try {
+      const config = {
+        configurable: { thread_id: "retry-test", checkpoint_id: checkpoint1.id },
+      };
+      await assert.rejects(
+        () => retryingSaver.getTuple(config),
+        (error: any) => {
+          assert.ok(error instanceof RedisCheckpointConnectionError);
+          assert.strictEqual(error.cause.code, "ECONNREFUSED");
+          return true;
+        }
+      );
+      assert.equal(calls, 3);
+
+      await assert.rejects(
+        () => retryingSaver.getTuple(config),
+        RedisCheckpointCircuitOpenError
+      );
+      await assert.rejects(
+        () => retryingSaver.deleteThread("retry-test"),
+        RedisCheckpointCircuitOpenError
+      );
+      assert.equal(calls, 3, "Calls should fail fast while the circuit is open");
+    } finally {
+      redisClient.hgetallBuffer = originalHgetall;
+    }
+  });
+
+  await it("should report spans, metrics and events", async () => {
+    await redisClient.flushall();
+
+    const spans: { name: string; attributes: any; status?: any; ended: boolean }[] = [];
+    const tracer = {
+      startSpan: (name: string, options?: { attributes?: any }) => {
+        const span = { name, attributes: options?.attributes, status: undefined as any, ended: false };
+        spans.push(span);
+        return {
+          recordException: () => {},
+          setStatus: (status: any) => {
+            span.status = status;
+          },
+          end: () => {
+            span.ended = true;
+          },
+        };
+      },
+    };
+    const metrics: Record<string, { value: number; attributes: any }[]> = {};
+    const instrument = (name: string) => {
+      metrics[name] = [];
+      const record = (value: number, attributes: any) =>
+        metrics[name].push({ value, attributes });
+      return { record, add: record };
+    };
+    const meter = { createHistogram: instrument, createCounter: instrument };
+    const events: any[] = [];
+
+    const instrumentedSaver = new RedisSaver({
+      connection: redisClient,
+      instrumentation: {
+        tracer,
+        meter,
+        onEvent: (event) => {
+          events.push(event);
+          throw new Error("Hooks must not break the saver");
+        },
+      },
+    });
+
+    const config = await instrumentedSaver.put(
+      { configurable: { thread_id: "instrumentation-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await instrumentedSaver.putWrites(config, [["bar", "baz"]], "foo");
+    await instrumentedSaver.getTuple(config);
+    await instrumentedSaver.getTuple({
+      configurable: { thread_id: "instrumentation-missing" },
+    });
+    for await (const item of instrumentedSaver.list(config)) {
+      assert.ok(item);
+    }
+    await assert.rejects(() =>
+      instrumentedSaver.getTuple({ configurable: {} })
     );
 
-    // Test invalid writes
-    await assert.rejects(
-      () => saver.putWrites({ configurable: { thread_id: "test", checkpoint_ns: "", checkpoint_id: "test" } }, "not-array" as any, "task1"),
-      /putWrites\(\) requires writes to be an array/
+    assert.deepEqual(
+      spans.map(({ name }) => name),
+      [
+        "RedisSaver.put",
+        "RedisSaver.putWrites",
+        "RedisSaver.getTuple",
+        "RedisSaver.getTuple",
+        "RedisSaver.list",
+        "RedisSaver.getTuple",
+      ]
     );
+    assert.ok(spans.every((span) => span.ended));
+    assert.deepEqual(spans[0].attributes, {
+      thread_id: "instrumentation-test",
+      checkpoint_ns: "",
+      checkpoint_id: checkpoint1.id,
+    });
+    assert.strictEqual(spans[5].status.code, 2);
 
-    // Test invalid taskId
-    await assert.rejects(
-      () => saver.putWrites({ configurable: { thread_id: "test", checkpoint_ns: "", checkpoint_id: "test" } }, [], undefined as any),
-      /putWrites\(\) requires a valid taskId string/
+    assert.deepEqual(
+      metrics["checkpoint_redis.operation.duration"].map(
+        ({ attributes }) => `${attributes.operation}:${attributes.status}`
+      ),
+      ["put:ok", "putWrites:ok", "getTuple:ok", "getTuple:ok", "list:ok", "getTuple:error"]
     );
+    assert.deepEqual(
+      metrics["checkpoint_redis.payload.size"].map(({ attributes }) => attributes.operation),
+      ["put", "putWrites", "getTuple", "list"]
+    );
+    assert.ok(metrics["checkpoint_redis.payload.size"].every(({ value }) => value > 0));
+    assert.deepEqual(metrics["checkpoint_redis.errors"], [
+      {
+        value: 1,
+        attributes: { operation: "getTuple", "error.type": "CheckpointValidationError" },
+      },
+    ]);
+    assert.strictEqual(metrics["checkpoint_redis.cache.hits"].length, 1);
+    assert.strictEqual(metrics["checkpoint_redis.cache.misses"].length, 1);
 
-    // Test missing required config fields
-    await assert.rejects(
-      () => saver.putWrites({ configurable: {} }, [], "task1"),
-      /putWrites\(\) requires config.configurable to contain "thread_id", "checkpoint_ns" and "checkpoint_id" fields/
+    assert.deepEqual(
+      events.filter((event) => event.type === "cache").map((event) => event.hit),
+      [true, false]
     );
+    assert.ok(events.some((event) => event.type === "operation" && event.error));
   });
 
-  await it("should validate getTuple() method parameters", async () => {
-    // Test missing config
-    await assert.rejects(
-      () => saver.getTuple(undefined as any),
-      /getTuple\(\) requires a valid RunnableConfig/
+  await it("should store blobs as raw bytes", async () => {
+    await redisClient.flushall();
+
+    const config = await saver.put(
+      { configurable: { thread_id: "binary-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
     );
+    await saver.putWrites(config, [["bar", new Uint8Array([0, 255])]], "foo");
 
-    // Test missing thread_id
-    await assert.rejects(
-      () => saver.getTuple({ configurable: {} }),
-      /getTuple\(\) requires config.configurable.thread_id to be defined/
+    const stored = await redisClient.hgetallBuffer(
+      `checkpoint:binary-test::${checkpoint1.id}`
+    );
+    assert.deepEqual(
+      JSON.parse(stored.checkpoint.toString()),
+      JSON.parse(JSON.stringify(checkpoint1))
     );
+    assert.strictEqual(stored.encoding.toString(), "binary");
+
+    const tuple = await saver.getTuple(config);
+    assert.deepEqual(tuple?.pendingWrites, [
+      ["foo", "bar", new Uint8Array([0, 255])],
+    ]);
   });
 
-  await it("should delete thread across all namespaces", async () => {
-    // Clear Redis before test
+  await it("should compress large blobs and read compressed and plain records", async () => {
     await redisClient.flushall();
 
-    const checkpoint1: Checkpoint = {
-      v: 1,
-      id: uuid6(-1),
-      ts: "2024-04-19T17:19:07.952Z",
-      channel_values: { testKey: "testValue1" },
-      channel_versions: { testKey: 1 },
-      versions_seen: {},
-      pending_sends: [],
-    };
-
-    const checkpoint2: Checkpoint = {
-      v: 1,
-      id: uuid6(1),
-      ts: "2024-04-20T17:19:07.952Z",
-      channel_values: { testKey: "testValue2" },
-      channel_versions: { testKey: 2 },
-      versions_seen: {},
-      pending_sends: [],
+    const compressingSaver = new RedisSaver({
+      connection: redisClient,
+      compression: { codec: "gzip", threshold: 256 },
+    });
+    const largeCheckpoint: Checkpoint = {
+      ...checkpoint2,
+      channel_values: { messages: "hello world ".repeat(1000) },
     };
 
-    // Create checkpoints in different namespaces
+    const config = await compressingSaver.put(
+      { configurable: { thread_id: "compression-test" } },
+      largeCheckpoint,
+      { source: "loop", step: 0, parents: {} }
+    );
+    await compressingSaver.putWrites(
+      config,
+      [["small", "baz"], ["large", "x".repeat(1000)]],
+      "foo"
+    );
     await saver.put(
-      { configurable: { thread_id: "delete-test", checkpoint_ns: "" } },
+      { configurable: { thread_id: "compression-test" } },
       checkpoint1,
       { source: "update", step: -1, writes: null }
     );
 
+    const key = `checkpoint:compression-test::${checkpoint2.id}`;
+    const stored = await redisClient.hgetallBuffer(key);
+    assert.strictEqual(stored.compression.toString(), "gzip");
+    assert.strictEqual(stored.metadata_compression.toString(), "");
+    assert.ok(stored.checkpoint.length < 1000);
+    assert.strictEqual(
+      (await redisClient.hget(`writes:compression-test::${checkpoint2.id}:foo:0`, "compression")),
+      ""
+    );
+    assert.strictEqual(
+      (await redisClient.hget(`writes:compression-test::${checkpoint2.id}:foo:1`, "compression")),
+      "gzip"
+    );
+
+    // Either saver reads both compressed and uncompressed records
+    for (const reader of [saver, compressingSaver]) {
+      const tuple = await reader.getTuple(config);
+      assert.deepEqual(tuple?.checkpoint, largeCheckpoint);
+      assert.deepEqual(tuple?.pendingWrites, [
+        ["foo", "small", "baz"],
+        ["foo", "large", "x".repeat(1000)],
+      ]);
+
+      const listed: CheckpointTuple[] = [];
+      for await (const item of reader.list({
+        configurable: { thread_id: "compression-test" },
+      })) {
+        listed.push(item);
+      }
+      assert.deepEqual(
+        listed.map((item) => item.checkpoint),
+        [largeCheckpoint, checkpoint1]
+      );
+    }
+
+    // Overwriting a compressed record without compression clears the codec
     await saver.put(
-      { configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" } },
-      checkpoint2,
+      { configurable: { thread_id: "compression-test" } },
+      largeCheckpoint,
+      { source: "loop", step: 0, parents: {} }
+    );
+    assert.strictEqual(await redisClient.hget(key, "compression"), "");
+    assert.deepEqual((await saver.getTuple(config))?.checkpoint, largeCheckpoint);
+  });
+
+  await it("should encrypt records and rotate a thread to a new key", async () => {
+    await redisClient.flushall();
+
+    const keyProvider = new StaticKeyProvider({
+      keys: { key1: randomBytes(32), key2: randomBytes(32) },
+      currentKeyId: "key1",
+    });
+    const encryptingSaver = new RedisSaver(
+      { connection: redisClient, compression: { codec: "gzip", threshold: 0 } },
+      new EncryptedSerializer(saver.serde, keyProvider)
+    );
+
+    // A record written before encryption was enabled
+    await saver.put(
+      { configurable: { thread_id: "encryption-test" } },
+      checkpoint1,
       { source: "update", step: -1, writes: null }
     );
+    const config = await encryptingSaver.put(
+      { configurable: { thread_id: "encryption-test", checkpoint_id: checkpoint1.id } },
+      checkpoint2,
+      { source: "loop", step: 0, parents: {} }
+    );
+    await encryptingSaver.putWrites(config, [["bar", "secret"]], "foo");
 
-    // Verify checkpoints exist
-    const checkpoint1Exists = await saver.getTuple({
-      configurable: { thread_id: "delete-test", checkpoint_ns: "" }
+    const stored = await redisClient.hgetallBuffer(
+      `checkpoint:encryption-test::${checkpoint2.id}`
+    );
+    assert.strictEqual(stored.type.toString(), "encrypted:json");
+    assert.ok(!stored.checkpoint.toString("latin1").includes("someValue2"));
+
+    const keyIds = async () => {
+      const serde = encryptingSaver.serde as EncryptedSerializer;
+      const ids: (string | undefined)[] = [];
+      for (const key of (await redisClient.keys("*")).sort()) {
+        if (key.startsWith("checkpoint:") || key.startsWith("writes:")) {
+          const data = await redisClient.hgetallBuffer(key);
+          const blob = data.checkpoint ?? data.value;
+          ids.push(serde.getKeyId(data.type.toString(), blob));
+        }
+      }
+      return ids;
+    };
+    assert.deepEqual(await keyIds(), [undefined, "key1", "key1"]);
+
+    keyProvider.currentKeyId = "key2";
+    assert.strictEqual(await encryptingSaver.reencryptThread("encryption-test"), 3);
+    assert.strictEqual(await encryptingSaver.reencryptThread("encryption-test"), 0);
+
+    // Retired keys are no longer needed once the thread was rotated
+    delete keyProvider.keys.key1;
+    assert.deepEqual(await keyIds(), ["key2", "key2", "key2"]);
+
+    const listed: CheckpointTuple[] = [];
+    for await (const item of encryptingSaver.list({
+      configurable: { thread_id: "encryption-test" },
+    })) {
+      listed.push(item);
+    }
+    assert.deepEqual(
+      listed.map((item) => item.checkpoint),
+      [checkpoint2, checkpoint1]
+    );
+    const tuple = await encryptingSaver.getTuple(config);
+    assert.deepEqual(tuple?.pendingWrites, [["foo", "bar", "secret"]]);
+
+    await assert.rejects(
+      () => saver.reencryptThread("encryption-test"),
+      /reencryptThread\(\) requires the RedisSaver to use an EncryptedSerializer/
+    );
+  });
+
+  await it("should read records stored as comma-separated byte strings", async () => {
+    await redisClient.flushall();
+
+    const encode = (value: unknown) =>
+      Array.from(new TextEncoder().encode(JSON.stringify(value))).join(",");
+    await redisClient.hset(`checkpoint:legacy-test::${checkpoint1.id}`, {
+      checkpoint: encode(checkpoint1),
+      type: "json",
+      metadata_type: "json",
+      metadata: encode({ source: "update", step: -1, writes: null }),
+      parent_checkpoint_id: "",
     });
-    const checkpoint2Exists = await saver.getTuple({
-      configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" }
+
+    await redisClient.hset(`writes:legacy-test::${checkpoint1.id}:task1:0`, {
+      channel: "channel1",
+      type: "json",
+      value: encode("value1"),
     });
 
-    assert.ok(checkpoint1Exists, "Checkpoint 1 should exist before deletion");
-    assert.ok(checkpoint2Exists, "Checkpoint 2 should exist before deletion");
+    // Reads never scan the keyspace, so the thread is unknown until gc()
+    // indexes it
+    const scan = redisClient.scan;
+    let scans = 0;
+    redisClient.scan = ((...args: Parameters<typeof scan>) => {
+      scans += 1;
+      return scan.apply(redisClient, args);
+    }) as typeof scan;
+    assert.strictEqual(
+      await saver.getTuple({ configurable: { thread_id: "legacy-test" } }),
+      undefined
+    );
+    for await (const item of saver.list({ configurable: { thread_id: "legacy-test" } })) {
+      assert.fail(`Unexpected checkpoint ${item.checkpoint.id}`);
+    }
+    redisClient.scan = scan;
+    assert.strictEqual(scans, 0);
 
-    // Delete the thread
-    await saver.deleteThread("delete-test");
+    const report = await saver.gc();
+    assert.deepEqual(
+      report.issues.map((issue) => issue.type).sort(),
+      ["unindexed_checkpoint", "unindexed_write"]
+    );
 
-    // Verify both checkpoints are deleted
-    const checkpoint1AfterDelete = await saver.getTuple({
-      configurable: { thread_id: "delete-test", checkpoint_ns: "" }
-    });
-    const checkpoint2AfterDelete = await saver.getTuple({
-      configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" }
+    const tuple = await saver.getTuple({ configurable: { thread_id: "legacy-test" } });
+    assert.deepEqual(tuple?.checkpoint, checkpoint1);
+    assert.deepEqual(tuple?.metadata, {
+      source: "update",
+      step: -1,
+      writes: null,
     });
+    assert.deepEqual(tuple?.pendingWrites, [["task1", "channel1", "value1"]]);
 
-    assert.strictEqual(checkpoint1AfterDelete, undefined, "Checkpoint 1 should be deleted");
-    assert.strictEqual(checkpoint2AfterDelete, undefined, "Checkpoint 2 should be deleted");
+    const listed = [];
+    for await (const item of saver.list({ configurable: { thread_id: "legacy-test" } })) {
+      listed.push(item.checkpoint);
+    }
+    assert.deepEqual(listed, [checkpoint1]);
+    assert.strictEqual((await saver.getThread("legacy-test"))?.checkpoint_count, 1);
+  });
+
+  await it("should apply per-call TTL overrides to all keys", async () => {
+    await redisClient.flushall();
+
+    const config = await saverWithTTL.put(
+      { configurable: { thread_id: "ttl-override-test", checkpoint_ttl: 3000 } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    assert.strictEqual(config.configurable?.checkpoint_ttl, 3000);
+    await saverWithTTL.putWrites(config, [["bar", "baz"]], "foo");
+
+    const keys = await redisClient.keys("*ttl-override-test*");
+    assert.strictEqual(keys.length, 6);
+    for (const key of keys) {
+      const ttl = await redisClient.ttl(key);
+      assert.ok(ttl > 60 && ttl <= 3000, `TTL of ${key} should be overridden`);
+    }
+
+    await assert.rejects(
+      () =>
+        saverWithTTL.put(
+          { configurable: { thread_id: "ttl-override-test", checkpoint_ttl: -5 } },
+          checkpoint2,
+          { source: "update", step: -1, writes: null }
+        ),
+      /put\(\) requires config.configurable.checkpoint_ttl to be a positive integer/
+    );
+  });
+
+  await it("should refresh the thread TTL on read", async () => {
+    await redisClient.flushall();
+
+    const slidingSaver = new RedisSaver({
+      connection: redisClient,
+      ttl: 100,
+      refreshOnRead: true,
+    });
+    const config = await slidingSaver.put(
+      { configurable: { thread_id: "sliding-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await slidingSaver.putWrites(config, [["bar", "baz"]], "foo");
+    const keys = await redisClient.keys("*sliding-test*");
+    assert.strictEqual(keys.length, 6);
+
+    // More than half of the TTL remains, so nothing is rewritten
+    for (const key of keys) {
+      await redisClient.expire(key, 90);
+    }
+    await slidingSaver.getTuple({ configurable: { thread_id: "sliding-test" } });
+    for (const key of keys) {
+      assert.ok((await redisClient.ttl(key)) <= 90);
+    }
+
+    // The thread is about to expire, so reading it extends every key
+    for (const key of keys) {
+      await redisClient.expire(key, 10);
+    }
+    await slidingSaver.getTuple({ configurable: { thread_id: "sliding-test" } });
+    for (const key of keys) {
+      assert.ok((await redisClient.ttl(key)) > 90, `${key} should be refreshed`);
+    }
+
+    // Threads saved with an override are refreshed with the same TTL
+    const overrideConfig = await slidingSaver.put(
+      { configurable: { thread_id: "sliding-override", checkpoint_ttl: 1000 } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    const overrideKey = `checkpoint:sliding-override::${checkpoint1.id}`;
+    await redisClient.expire(overrideKey, 10);
+    await redisClient.expire("checkpoint_namespaces:sliding-override", 10);
+    await slidingSaver.getTuple({
+      configurable: { thread_id: overrideConfig.configurable?.thread_id },
+    });
+    assert.ok((await redisClient.ttl(overrideKey)) > 100);
+
+    // Listing a thread and adding writes to it extend it too
+    for (const refresh of [
+      async () => {
+        const listed = [];
+        for await (const tuple of slidingSaver.list({ configurable: { thread_id: "sliding-test" } })) {
+          listed.push(tuple);
+        }
+        assert.strictEqual(listed.length, 1);
+      },
+      () => slidingSaver.putWrites(config, [["bar", "qux"]], "other"),
+    ]) {
+      for (const key of keys) {
+        await redisClient.expire(key, 10);
+      }
+      await refresh();
+      for (const key of keys) {
+        assert.ok((await redisClient.ttl(key)) > 90, `${key} should be refreshed`);
+      }
+    }
+  });
+
+  await it("should keep the thread keys until its last checkpoint expires", async () => {
+    const checkpoint3: Checkpoint = { ...checkpoint2, id: uuid6(2) };
+    const checkpoint4: Checkpoint = { ...checkpoint2, id: uuid6(3) };
+    for (const optimisticConcurrency of [false, true]) {
+      await redisClient.flushall();
+
+      const ttlSaver = new RedisSaver({ connection: redisClient, ttl: 100, optimisticConcurrency });
+      const sharedKeys = [
+        "checkpoint_index:shared-ttl:",
+        "checkpoint_namespaces:shared-ttl",
+        "thread:shared-ttl",
+      ];
+
+      // A shorter TTL for a later checkpoint does not shorten the indexes of
+      // the earlier one
+      const config1 = await ttlSaver.put(
+        { configurable: { thread_id: "shared-ttl" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      await ttlSaver.putWrites(config1, [["bar", "baz"]], "foo");
+      await ttlSaver.put(
+        { configurable: { ...config1.configurable, checkpoint_ttl: 10 } },
+        checkpoint2,
+        { source: "update", step: 0, writes: null }
+      );
+      await ttlSaver.putWrites(
+        { configurable: { ...config1.configurable, checkpoint_ttl: 10 } },
+        [["bar", "qux"]],
+        "other"
+      );
+      assert.ok((await redisClient.ttl(`checkpoint:shared-ttl::${checkpoint2.id}`)) <= 10);
+      for (const key of [...sharedKeys, `writes_index:shared-ttl::${checkpoint1.id}`]) {
+        assert.ok((await redisClient.ttl(key)) > 90, `${key} should keep the longer TTL`);
+      }
+
+      // Saving without a TTL removes the expiry and the stored TTL
+      const config2 = {
+        configurable: { thread_id: "shared-ttl", checkpoint_ns: "", checkpoint_id: checkpoint2.id },
+      };
+      const persistentSaver = new RedisSaver({ connection: redisClient, optimisticConcurrency });
+      await persistentSaver.put(config2, checkpoint3, { source: "update", step: 1, writes: null });
+      const key3 = `checkpoint:shared-ttl::${checkpoint3.id}`;
+      await ttlSaver.put(config2, checkpoint3, { source: "update", step: 1, writes: null });
+      assert.ok((await redisClient.ttl(key3)) > 0);
+      await persistentSaver.put(config2, checkpoint3, { source: "update", step: 1, writes: null });
+      assert.strictEqual(await redisClient.hget(key3, "ttl"), null);
+      for (const key of [key3, ...sharedKeys]) {
+        assert.strictEqual(await redisClient.ttl(key), -1, `${key} should not expire`);
+      }
+
+      // Later checkpoints with a TTL leave them without an expiry
+      await ttlSaver.put(
+        { configurable: { thread_id: "shared-ttl", checkpoint_ns: "", checkpoint_id: checkpoint3.id } },
+        checkpoint4,
+        { source: "update", step: 2, writes: null }
+      );
+      for (const key of sharedKeys) {
+        assert.strictEqual(await redisClient.ttl(key), -1, `${key} should not expire`);
+      }
+    }
+  });
+
+  await it("should raise typed errors", async () => {
+    await redisClient.flushall();
+
+    await assert.rejects(
+      () => saver.put({ configurable: {} }, checkpoint1, { source: "update", step: -1, writes: null }),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointValidationError);
+        assert.ok(error instanceof RedisCheckpointError);
+        assert.strictEqual(error.name, "CheckpointValidationError");
+        assert.strictEqual(error.operation, "put");
+        return true;
+      }
+    );
+
+    const failingSaver = new RedisSaver({ connection: redisClient }, {
+      dumpsTyped: async () => {
+        throw new Error("cyclic value");
+      },
+      loadsTyped: async () => {
+        throw new Error("corrupt value");
+      },
+    });
+    await assert.rejects(
+      () =>
+        failingSaver.putWrites(
+          {
+            configurable: {
+              thread_id: "typed-errors-test",
+              checkpoint_ns: "",
+              checkpoint_id: checkpoint1.id,
+            },
+          },
+          [["bar", "baz"]],
+          "foo"
+        ),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointSerializationError);
+        assert.strictEqual(error.cause.message, "cyclic value");
+        assert.strictEqual(error.operation, "putWrites");
+        assert.strictEqual(error.thread_id, "typed-errors-test");
+        return true;
+      }
+    );
+
+    await saver.put(
+      { configurable: { thread_id: "typed-errors-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await assert.rejects(
+      () => failingSaver.getTuple({ configurable: { thread_id: "typed-errors-test" } }),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointSerializationError);
+        assert.strictEqual(error.operation, "getTuple");
+        assert.strictEqual(error.checkpoint_id, checkpoint1.id);
+        return true;
+      }
+    );
+    await assert.rejects(
+      () =>
+        failingSaver
+          .list({ configurable: { thread_id: "typed-errors-test" } })
+          .next(),
+      CheckpointSerializationError
+    );
+    await assert.rejects(
+      () =>
+        saver
+          .list(
+            { configurable: { thread_id: "typed-errors-test" } },
+            { filter: { step: { $regex: "x" } } }
+          )
+          .next(),
+      CheckpointValidationError
+    );
+
+    // Index entries that do not match the key schema
+    await redisClient.sadd(
+      saver.keySchema.writesIndexKey("typed-errors-test", "", checkpoint1.id),
+      "not-a-writes-key"
+    );
+    await assert.rejects(
+      () => saver.getTuple({ configurable: { thread_id: "typed-errors-test" } }),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointValidationError);
+        assert.strictEqual(error.key, "not-a-writes-key");
+        return true;
+      }
+    );
+    const mismatchedSaver = new RedisSaver({
+      connection: redisClient,
+      keySchema: {
+        parseCheckpointKey: () => {
+          throw new Error("Unexpected key");
+        },
+      },
+    });
+    await assert.rejects(
+      () => mismatchedSaver.getTuple({ configurable: { thread_id: "typed-errors-test" } }),
+      CheckpointValidationError
+    );
+  });
+
+  await it("should validate constructor parameters", async () => {
+    // Test missing connection
+    assert.throws(
+      () => new RedisSaver({ connection: undefined as any }),
+      /RedisSaver requires a valid Redis connection/
+    );
+
+    // Test invalid TTL values
+    assert.throws(
+      () => new RedisSaver({ connection: redisClient, ttl: -1 }),
+      /Invalid TTL value: -1/
+    );
+
+    assert.throws(
+      () => new RedisSaver({ connection: redisClient, ttl: 1.5 }),
+      /Invalid TTL value: 1.5/
+    );
+
+    assert.throws(
+      () => new RedisSaver({ connection: redisClient, ttl: "invalid" as any }),
+      /Invalid TTL value: invalid/
+    );
+
+    // Test invalid key prefix
+    assert.throws(
+      () => new RedisSaver({ connection: redisClient, keyPrefix: "app:*" }),
+      /Invalid key prefix: app:\*/
+    );
+
+    // Test invalid retention values
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: redisClient,
+          retention: { maxCheckpointsPerThread: 0 },
+        }),
+      /Invalid retention maxCheckpointsPerThread value: 0/
+    );
+
+    // Test invalid retry and circuit breaker values
+    assert.throws(
+      () =>
+        new RedisSaver({ connection: redisClient, retry: { maxAttempts: 0 } }),
+      /Invalid retry maxAttempts value: 0/
+    );
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: redisClient,
+          circuitBreaker: { failureThreshold: 1.5 },
+        }),
+      /Invalid circuitBreaker failureThreshold value: 1.5/
+    );
+
+    // Test invalid compression values
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: redisClient,
+          compression: { codec: "zstd" as any },
+        }),
+      /Invalid compression codec: zstd/
+    );
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: redisClient,
+          compression: { codec: "gzip", threshold: -1 },
+        }),
+      /Invalid compression threshold value: -1/
+    );
+
+    // Test invalid read-your-writes strategy
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: redisClient,
+          readYourWrites: { strategy: "sometimes" } as any,
+        }),
+      /Invalid readYourWrites strategy: sometimes/
+    );
+
+    // Test WAIT with a cluster connection
+    const cluster = new Redis.Cluster([{ host: "cluster-test" }]);
+    (cluster as any).isCluster = true;
+    assert.throws(
+      () =>
+        new RedisSaver({
+          connection: cluster as any,
+          readYourWrites: { strategy: "wait" },
+        }),
+      /"wait" readYourWrites strategy is not supported for Redis Cluster/
+    );
+    await cluster.quit();
+
+    // Test valid TTL
+    assert.doesNotThrow(
+      () => new RedisSaver({ connection: redisClient, ttl: 3600 })
+    );
+  });
+
+  await it("should validate put() method parameters", async () => {
+    // Test missing config
+    await assert.rejects(
+      () => saver.put(undefined as any, checkpoint1, { source: "update", step: -1, writes: null }),
+      /put\(\) requires a valid RunnableConfig/
+    );
+
+    // Test missing checkpoint
+    await assert.rejects(
+      () => saver.put({ configurable: { thread_id: "test" } }, undefined as any, { source: "update", step: -1, writes: null }),
+      /put\(\) requires a valid Checkpoint/
+    );
+
+    // Test missing metadata
+    await assert.rejects(
+      () => saver.put({ configurable: { thread_id: "test" } }, checkpoint1, undefined as any),
+      /put\(\) requires valid CheckpointMetadata/
+    );
+
+    // Test missing thread_id
+    await assert.rejects(
+      () => saver.put({ configurable: {} }, checkpoint1, { source: "update", step: -1, writes: null }),
+      /put\(\) requires config.configurable.thread_id to be defined/
+    );
+
+    // Test checkpoint without id
+    const invalidCheckpoint = { ...checkpoint1, id: undefined };
+    await assert.rejects(
+      () => saver.put({ configurable: { thread_id: "test" } }, invalidCheckpoint as any, { source: "update", step: -1, writes: null }),
+      /put\(\) requires checkpoint to have a valid id/
+    );
+  });
+
+  await it("should validate putWrites() method parameters", async () => {
+    // Test missing config
+    await assert.rejects(
+      () => saver.putWrites(undefined as any, [], "task1"),
+      /putWrites\(\) requires a valid RunnableConfig/
+    );
+
+    // Test invalid writes
+    await assert.rejects(
+      () => saver.putWrites({ configurable: { thread_id: "test", checkpoint_ns: "", checkpoint_id: "test" } }, "not-array" as any, "task1"),
+      /putWrites\(\) requires writes to be an array/
+    );
+
+    // Test invalid taskId
+    await assert.rejects(
+      () => saver.putWrites({ configurable: { thread_id: "test", checkpoint_ns: "", checkpoint_id: "test" } }, [], undefined as any),
+      /putWrites\(\) requires a valid taskId string/
+    );
+
+    // Test missing required config fields
+    await assert.rejects(
+      () => saver.putWrites({ configurable: {} }, [], "task1"),
+      /putWrites\(\) requires config.configurable to contain "thread_id", "checkpoint_ns" and "checkpoint_id" fields/
+    );
+  });
+
+  await it("should validate getTuple() method parameters", async () => {
+    // Test missing config
+    await assert.rejects(
+      () => saver.getTuple(undefined as any),
+      /getTuple\(\) requires a valid RunnableConfig/
+    );
+
+    // Test missing thread_id
+    await assert.rejects(
+      () => saver.getTuple({ configurable: {} }),
+      /getTuple\(\) requires config.configurable.thread_id to be defined/
+    );
+  });
+
+  await it("should delete thread across all namespaces", async () => {
+    // Clear Redis before test
+    await redisClient.flushall();
+
+    const checkpoint1: Checkpoint = {
+      v: 1,
+      id: uuid6(-1),
+      ts: "2024-04-19T17:19:07.952Z",
+      channel_values: { testKey: "testValue1" },
+      channel_versions: { testKey: 1 },
+      versions_seen: {},
+      pending_sends: [],
+    };
+
+    const checkpoint2: Checkpoint = {
+      v: 1,
+      id: uuid6(1),
+      ts: "2024-04-20T17:19:07.952Z",
+      channel_values: { testKey: "testValue2" },
+      channel_versions: { testKey: 2 },
+      versions_seen: {},
+      pending_sends: [],
+    };
+
+    // Create checkpoints in different namespaces
+    await saver.put(
+      { configurable: { thread_id: "delete-test", checkpoint_ns: "" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+
+    const config2 = await saver.put(
+      { configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" } },
+      checkpoint2,
+      { source: "update", step: -1, writes: null }
+    );
+    await saver.putWrites(config2, [["bar", "baz"]], "foo");
+
+    // Verify checkpoints exist
+    const checkpoint1Exists = await saver.getTuple({
+      configurable: { thread_id: "delete-test", checkpoint_ns: "" }
+    });
+    const checkpoint2Exists = await saver.getTuple({
+      configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" }
+    });
+
+    assert.ok(checkpoint1Exists, "Checkpoint 1 should exist before deletion");
+    assert.ok(checkpoint2Exists, "Checkpoint 2 should exist before deletion");
+
+    // Delete the thread through its indexes, without scanning the keyspace
+    const scan = redisClient.scan;
+    let scans = 0;
+    redisClient.scan = ((...args: Parameters<typeof scan>) => {
+      scans += 1;
+      return scan.apply(redisClient, args);
+    }) as typeof scan;
+    await saver.deleteThread("delete-test");
+    redisClient.scan = scan;
+    assert.strictEqual(scans, 0);
+    assert.deepEqual(await redisClient.keys("*delete-test*"), []);
+
+    // Verify both checkpoints are deleted
+    const checkpoint1AfterDelete = await saver.getTuple({
+      configurable: { thread_id: "delete-test", checkpoint_ns: "" }
+    });
+    const checkpoint2AfterDelete = await saver.getTuple({
+      configurable: { thread_id: "delete-test", checkpoint_ns: "namespace1" }
+    });
+
+    assert.strictEqual(checkpoint1AfterDelete, undefined, "Checkpoint 1 should be deleted");
+    assert.strictEqual(checkpoint2AfterDelete, undefined, "Checkpoint 2 should be deleted");
+  });
+
+  await it("should support thread IDs and namespaces containing ':'", async () => {
+    await redisClient.flushall();
+
+    const config = await saver.put(
+      {
+        configurable: {
+          thread_id: "tenant:user:42",
+          checkpoint_ns: "parent:child|task",
+        },
+      },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await saver.putWrites(config, [["bar", "baz"]], "task:1");
+
+    const tuple = await saver.getTuple({
+      configurable: {
+        thread_id: "tenant:user:42",
+        checkpoint_ns: "parent:child|task",
+      },
+    });
+    assert.deepEqual(tuple?.config, config);
+    assert.deepEqual(tuple?.pendingWrites, [["task:1", "bar", "baz"]]);
+
+    const unrelated = await saver.getTuple({
+      configurable: { thread_id: "tenant", checkpoint_ns: "user:42:parent" },
+    });
+    assert.strictEqual(unrelated, undefined);
+  });
+
+  await it("should not delete threads sharing an ID prefix", async () => {
+    await redisClient.flushall();
+
+    for (const thread_id of ["a", "a:b", "a*"]) {
+      await saver.put(
+        { configurable: { thread_id } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+    }
+
+    await saver.deleteThread("a");
+
+    assert.strictEqual(
+      await saver.getTuple({ configurable: { thread_id: "a" } }),
+      undefined
+    );
+    assert.ok(await saver.getTuple({ configurable: { thread_id: "a:b" } }));
+    assert.ok(await saver.getTuple({ configurable: { thread_id: "a*" } }));
+
+    await saver.deleteThread("a*");
+    assert.ok(await saver.getTuple({ configurable: { thread_id: "a:b" } }));
+  });
+
+  await it("should namespace keys with a key prefix", async () => {
+    await redisClient.flushall();
+
+    const prodSaver = new RedisSaver({
+      connection: redisClient,
+      keyPrefix: "myapp:prod",
+    });
+    const stagingSaver = new RedisSaver({
+      connection: redisClient,
+      keyPrefix: "myapp:staging",
+    });
+
+    const config = await prodSaver.put(
+      { configurable: { thread_id: "prefix-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await prodSaver.putWrites(config, [["bar", "baz"]], "foo");
+    await stagingSaver.put(
+      { configurable: { thread_id: "prefix-test" } },
+      checkpoint2,
+      { source: "update", step: -1, writes: null }
+    );
+
+    const keys = await redisClient.keys("*");
+    assert.ok(keys.length > 0);
+    assert.ok(keys.every((key) => key.startsWith("myapp:")));
+
+    const tuple = await prodSaver.getTuple({
+      configurable: { thread_id: "prefix-test" },
+    });
+    assert.deepEqual(tuple?.checkpoint, checkpoint1);
+    assert.deepEqual(tuple?.pendingWrites, [["foo", "bar", "baz"]]);
+
+    const listed: CheckpointTuple[] = [];
+    for await (const item of prodSaver.list({
+      configurable: { thread_id: "prefix-test" },
+    })) {
+      listed.push(item);
+    }
+    assert.deepEqual(
+      listed.map((item) => item.config),
+      [config]
+    );
+
+    await prodSaver.deleteThread("prefix-test");
+    assert.strictEqual(
+      await prodSaver.getTuple({ configurable: { thread_id: "prefix-test" } }),
+      undefined
+    );
+    assert.ok(
+      await stagingSaver.getTuple({ configurable: { thread_id: "prefix-test" } })
+    );
+  });
+
+  await it("should build keys with a custom key schema", async () => {
+    await redisClient.flushall();
+
+    const customSaver = new RedisSaver({
+      connection: redisClient,
+      keySchema: {
+        checkpointKey: (threadId, checkpointNs, checkpointId) =>
+          `cp/${threadId}/${checkpointNs}/${checkpointId}`,
+        parseCheckpointKey: (redisKey) => {
+          const [, thread_id, checkpoint_ns, checkpoint_id] =
+            redisKey.split("/");
+          return { thread_id, checkpoint_ns, checkpoint_id };
+        },
+      },
+    });
+
+    await customSaver.put(
+      { configurable: { thread_id: "schema-test" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+
+    assert.strictEqual(
+      await redisClient.exists(`cp/schema-test//${checkpoint1.id}`),
+      1
+    );
+
+    const tuple = await customSaver.getTuple({
+      configurable: { thread_id: "schema-test" },
+    });
+    assert.deepEqual(tuple?.config, {
+      configurable: {
+        thread_id: "schema-test",
+        checkpoint_ns: "",
+        checkpoint_id: checkpoint1.id,
+      },
+    });
+  });
+
+  await it("should support Redis Cluster connections", async () => {
+    const cluster = new Redis.Cluster([{ host: "cluster-test" }], {
+      redisOptions: { host: "cluster-test" },
+    });
+    (cluster as any).isCluster = true;
+    const clusterSaver = new RedisSaver({ connection: cluster as any });
+    assert.strictEqual(clusterSaver.isCluster, true);
+
+    try {
+      const config = await clusterSaver.put(
+        { configurable: { thread_id: "cluster:1", checkpoint_ns: "ns" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      await clusterSaver.putWrites(config, [["bar", "baz"]], "foo");
+
+      const keys = await cluster.keys("*");
+      assert.ok(
+        keys
+          .filter((key) => key !== "thread_index" && key !== "thread_created_index")
+          .every((key) => key.includes(":{cluster%3A1}")),
+        `Thread keys should share a hash tag: ${keys.join(", ")}`
+      );
+
+      const tuple = await clusterSaver.getTuple({
+        configurable: { thread_id: "cluster:1", checkpoint_ns: "ns" },
+      });
+      assert.deepEqual(tuple?.config, config);
+      assert.deepEqual(tuple?.pendingWrites, [["foo", "bar", "baz"]]);
+
+      const listed: CheckpointTuple[] = [];
+      for await (const item of clusterSaver.list({ configurable: {} })) {
+        listed.push(item);
+      }
+      assert.deepEqual(
+        listed.map((item) => item.config),
+        [config]
+      );
+
+      await clusterSaver.deleteThread("cluster:1");
+      assert.deepEqual(await cluster.keys("*{cluster%3A1}*"), []);
+      assert.strictEqual(await cluster.zcard("thread_index"), 0);
+      assert.strictEqual(await cluster.zcard("thread_created_index"), 0);
+    } finally {
+      await cluster.quit();
+    }
+  });
+
+  await it("should send reads to the read connection", async () => {
+    await redisClient.flushall();
+
+    const replica = new Redis({ host: "replica" });
+    const splitSaver = new RedisSaver({
+      connection: redisClient,
+      readConnection: replica,
+    });
+
+    try {
+      const config = await splitSaver.put(
+        { configurable: { thread_id: "replica-test" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      assert.ok(await redisClient.exists(`checkpoint:replica-test::${checkpoint1.id}`));
+
+      // The replica has not received the write
+      assert.strictEqual(await splitSaver.getTuple(config), undefined);
+      const listed: CheckpointTuple[] = [];
+      for await (const item of splitSaver.list({ configurable: {} })) {
+        listed.push(item);
+      }
+      assert.strictEqual(listed.length, 0);
+    } finally {
+      await replica.quit();
+    }
+  });
+
+  await it("should read recently written threads from the primary", async () => {
+    await redisClient.flushall();
+
+    const replica = new Redis({ host: "replica" });
+    const splitSaver = new RedisSaver({
+      connection: redisClient,
+      readConnection: replica,
+      readYourWrites: { strategy: "primary", windowMs: 50 },
+    });
+
+    try {
+      const config = await splitSaver.put(
+        { configurable: { thread_id: "ryw-test" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+
+      assert.deepEqual(
+        (await splitSaver.getTuple(config))?.checkpoint,
+        checkpoint1
+      );
+      assert.strictEqual(
+        await splitSaver.getTuple({ configurable: { thread_id: "other" } }),
+        undefined
+      );
+
+      await sleep(60);
+      assert.strictEqual(await splitSaver.getTuple(config), undefined);
+    } finally {
+      await replica.quit();
+    }
+  });
+
+  await it("should wait for replicas after writes", async () => {
+    await redisClient.flushall();
+
+    const waits: unknown[][] = [];
+    let acknowledged = 2;
+    const client = redisClient as any;
+    const originalWait = client.wait;
+    client.wait = async (...args: unknown[]) => {
+      waits.push(args);
+      return acknowledged;
+    };
+    const replica = new Redis({ host: "replica" });
+
+    try {
+      const waitSaver = new RedisSaver({
+        connection: redisClient,
+        readConnection: replica,
+        readYourWrites: { strategy: "wait", replicas: 2, timeoutMs: 50, windowMs: 1000 },
+      });
+      const config = await waitSaver.put(
+        { configurable: { thread_id: "wait-test" } },
+        checkpoint1,
+        { source: "update", step: -1, writes: null }
+      );
+      await waitSaver.putWrites(config, [["bar", "baz"]], "foo");
+
+      assert.deepEqual(waits, [
+        [2, 50],
+        [2, 50],
+      ]);
+      // Both replicas acknowledged, so reads stay on the replica
+      assert.strictEqual(await waitSaver.getTuple(config), undefined);
+
+      // Too few did, so the thread is read from the primary
+      acknowledged = 1;
+      await waitSaver.putWrites(config, [["bar", "qux"]], "foo");
+      assert.deepEqual(
+        (await waitSaver.getTuple(config))?.pendingWrites,
+        [["foo", "bar", "qux"]]
+      );
+    } finally {
+      client.wait = originalWait;
+      await replica.quit();
+    }
+  });
+
+  await it("should keep only the latest checkpoints per namespace", async () => {
+    await redisClient.flushall();
+
+    const retentionSaver = new RedisSaver({
+      connection: redisClient,
+      retention: { maxCheckpointsPerThread: 2 },
+    });
+
+    const ids = [uuid6(-3), uuid6(-2), uuid6(-1), uuid6(0)];
+    let config: any = { configurable: { thread_id: "retention-test" } };
+    for (const id of ids) {
+      config = await retentionSaver.put(
+        config,
+        { ...checkpoint1, id },
+        { source: "loop", step: 0, parents: {} }
+      );
+      await retentionSaver.putWrites(config, [["bar", id]], "foo");
+    }
+    await retentionSaver.put(
+      { configurable: { thread_id: "retention-test", checkpoint_ns: "child" } },
+      checkpoint1,
+      { source: "loop", step: 0, parents: {} }
+    );
+
+    const listed: CheckpointTuple[] = [];
+    for await (const item of retentionSaver.list({
+      configurable: { thread_id: "retention-test", checkpoint_ns: "" },
+    })) {
+      listed.push(item);
+    }
+    assert.deepEqual(
+      listed.map((item) => item.checkpoint.id),
+      [ids[3], ids[2]]
+    );
+
+    // The oldest retained checkpoint becomes the root of the chain
+    assert.strictEqual(listed[0].parentConfig?.configurable?.checkpoint_id, ids[2]);
+    assert.strictEqual(listed[1].parentConfig, undefined);
+
+    const keys = await redisClient.keys("*");
+    for (const prunedId of ids.slice(0, 2)) {
+      assert.ok(
+        keys.every((key) => !key.includes(prunedId)),
+        `Keys of ${prunedId} should be removed`
+      );
+    }
+    assert.ok(
+      await retentionSaver.getTuple({
+        configurable: { thread_id: "retention-test", checkpoint_ns: "child" },
+      })
+    );
+  });
+
+  await it("should prune a namespace that changes while it is pruned", async () => {
+    await redisClient.flushall();
+
+    const ids = [uuid6(-3), uuid6(-2), uuid6(-1)];
+    const connection = new Redis();
+    const retentionSaver = new RedisSaver({
+      connection,
+      retention: { maxCheckpointsPerThread: 1 },
+    });
+    const config1 = await retentionSaver.put(
+      { configurable: { thread_id: "prune-race" } },
+      { ...checkpoint1, id: ids[0] },
+      { source: "loop", step: 0, parents: {} }
+    );
+
+    // Another client adds writes to a pruned checkpoint and a checkpoint to
+    // the namespace right after the pruning saver read it
+    const zrange = connection.zrange;
+    let reads = 0;
+    connection.zrange = (async (...args: Parameters<typeof zrange>) => {
+      reads += 1;
+      const members = await zrange.apply(connection, args);
+      if (reads === 1) {
+        await saver.putWrites(config1, [["bar", "late"]], "late");
+        await saver.put(
+          { configurable: { thread_id: "prune-race" } },
+          { ...checkpoint1, id: ids[2] },
+          { source: "loop", step: 2, parents: {} }
+        );
+      }
+      return members;
+    }) as typeof zrange;
+    try {
+      await retentionSaver.put(
+        config1,
+        { ...checkpoint1, id: ids[1] },
+        { source: "loop", step: 1, parents: {} }
+      );
+    } finally {
+      connection.zrange = zrange;
+    }
+
+    assert.strictEqual(reads, 2);
+    const keys = await redisClient.keys("*prune-race*");
+    for (const prunedId of ids.slice(0, 2)) {
+      assert.ok(
+        keys.every((key) => !key.includes(prunedId)),
+        `Keys of ${prunedId} should be removed`
+      );
+    }
+    assert.strictEqual(
+      (await saver.getTuple({ configurable: { thread_id: "prune-race" } }))?.checkpoint.id,
+      ids[2]
+    );
+  });
+
+  await it("should save checkpoints when pruning fails", async () => {
+    await redisClient.flushall();
+
+    const connection = new Redis();
+    connection.zrange = (async () => {
+      throw new Error("zrange failed");
+    }) as any;
+    const events: any[] = [];
+    const retentionSaver = new RedisSaver({
+      connection,
+      retention: { maxCheckpointsPerThread: 1 },
+      instrumentation: { onEvent: (event) => events.push(event) },
+    });
+
+    const config = await retentionSaver.put(
+      { configurable: { thread_id: "prune-failure" } },
+      checkpoint1,
+      { source: "loop", step: 0, parents: {} }
+    );
+    assert.deepEqual((await saver.getTuple(config))?.checkpoint, checkpoint1);
+
+    const pruneEvent = events.find(
+      (event) => event.type === "operation" && event.operation === "prune"
+    );
+    assert.match(String(pruneEvent?.error), /zrange failed/);
+  });
+
+  await it("should prune checkpoints older than maxAge on demand", async () => {
+    await redisClient.flushall();
+
+    // IDs other than uuid6 carry no timestamp, so maxAge keeps them
+    const ids = ["0-imported", uuid6(-3), uuid6(-2), uuid6(-1)];
+    for (const [i, checkpoint_ns] of ["", "", "", "child"].entries()) {
+      await saver.put(
+        { configurable: { thread_id: "max-age-test", checkpoint_ns } },
+        { ...checkpoint1, id: ids[i] },
+        { source: "loop", step: 0, parents: {} }
+      );
+    }
+
+    await assert.rejects(
+      () => saver.prune("max-age-test"),
+      /prune\(\) requires a retention policy/
+    );
+    assert.strictEqual(await saver.prune("max-age-test", { maxAge: 60 }), 0);
+
+    const realNow = Date.now;
+    Date.now = () => realNow() + 120_000;
+    try {
+      // The latest checkpoint of every namespace is kept
+      assert.strictEqual(await saver.prune("max-age-test", { maxAge: 60 }), 1);
+    } finally {
+      Date.now = realNow;
+    }
+
+    const listed: CheckpointTuple[] = [];
+    for await (const item of saver.list({
+      configurable: { thread_id: "max-age-test" },
+    })) {
+      listed.push(item);
+    }
+    assert.deepEqual(
+      listed.map((item) => item.checkpoint.id),
+      [ids[3], ids[2], ids[0]]
+    );
+  });
+
+  await it("should verify and repair integrity issues", async () => {
+    await redisClient.flushall();
+
+    const config1 = await saver.put(
+      { configurable: { thread_id: "verify-test" } },
+      checkpoint1,
+      { source: "update", step: -1, parents: {} }
+    );
+    await saver.putWrites(config1, [["bar", "baz"]], "foo");
+    const config2 = await saver.put(config1, checkpoint2, {
+      source: "loop",
+      step: 0,
+      parents: {},
+    });
+    await saver.putWrites(config2, [["bar", "baz"], ["qux", "quux"]], "foo");
+
+    // Lose the first checkpoint, corrupt a write of the second one and add a
+    // checkpoint that bypassed the indexes
+    await redisClient.del(`checkpoint:verify-test::${checkpoint1.id}`);
+    await redisClient.hset(
+      `writes:verify-test::${checkpoint2.id}:foo:1`,
+      "value",
+      "{not json"
+    );
+    const [type, serialized] = await saver.serde.dumpsTyped(checkpoint1);
+    const [, serializedMetadata] = await saver.serde.dumpsTyped({ step: 0 });
+    await redisClient.hset(`checkpoint:unindexed-test::${checkpoint1.id}`, {
+      checkpoint: Buffer.from(serialized),
+      type,
+      metadata_type: type,
+      metadata: Buffer.from(serializedMetadata),
+      parent_checkpoint_id: "",
+      encoding: "binary",
+    });
+    // A thread whose keys expired, leaving its index entries behind
+    await redisClient.zadd("thread_index", 1000, "expired-test");
+    await redisClient.zadd("thread_created_index", 1000, "expired-test");
+
+    const summarize = (issues: { type: string; key: string }[]) =>
+      issues.map(({ type, key }) => `${type} ${key}`).sort();
+    const expected = [
+      `dangling_parent checkpoint:verify-test::${checkpoint2.id}`,
+      "expired_thread thread_created_index",
+      "expired_thread thread_index",
+      `orphaned_write writes:verify-test::${checkpoint1.id}:foo:0`,
+      `undecodable_blob writes:verify-test::${checkpoint2.id}:foo:1`,
+      `unindexed_checkpoint checkpoint:unindexed-test::${checkpoint1.id}`,
+    ];
+
+    const report = await saver.verify();
+    assert.strictEqual(report.checkpoints, 2);
+    assert.strictEqual(report.writes, 3);
+    assert.deepEqual(summarize(report.issues), expected);
+    assert.ok(report.issues.every((issue) => !issue.repaired));
+
+    const threadReport = await saver.verify({ threadId: "unindexed-test" });
+    assert.deepEqual(
+      summarize(threadReport.issues),
+      expected.filter((issue) => issue.includes("unindexed-test"))
+    );
+
+    const gcReport = await saver.gc();
+    assert.deepEqual(summarize(gcReport.issues), expected);
+    assert.ok(gcReport.issues.every((issue) => issue.repaired));
+    assert.deepEqual((await saver.verify()).issues, []);
+
+    const tuple = await saver.getTuple({
+      configurable: { thread_id: "verify-test" },
+    });
+    assert.strictEqual(tuple?.parentConfig, undefined);
+    assert.deepEqual(tuple?.pendingWrites, [["foo", "bar", "baz"]]);
+
+    const listed: CheckpointTuple[] = [];
+    for await (const item of saver.list({
+      configurable: { thread_id: "unindexed-test" },
+    })) {
+      listed.push(item);
+    }
+    assert.deepEqual(listed.map((item) => item.checkpoint.id), [checkpoint1.id]);
+    assert.deepEqual(
+      (await saver.listThreads()).threads.map((thread) => thread.thread_id).sort(),
+      ["unindexed-test", "verify-test"]
+    );
+  });
+
+  await it("should register threads and page through them", async () => {
+    await redisClient.flushall();
+
+    const realNow = Date.now;
+    const putAt = async (
+      time: number,
+      threadId: string,
+      checkpoint: Checkpoint,
+      configurable: Record<string, unknown> = {}
+    ) => {
+      Date.now = () => time;
+      try {
+        await saver.put(
+          { configurable: { thread_id: threadId, ...configurable } },
+          checkpoint,
+          { source: "update", step: -1, writes: null }
+        );
+      } finally {
+        Date.now = realNow;
+      }
+    };
+
+    await putAt(1000, "registry-1", checkpoint1, {
+      checkpoint_ns: "inner",
+      thread_metadata: { owner: "jane" },
+    });
+    await putAt(2000, "registry-2", checkpoint1);
+    await putAt(3000, "registry-3", checkpoint1);
+    await putAt(4000, "registry-1", checkpoint1);
+    await putAt(4000, "registry-1", checkpoint2);
+
+    assert.deepEqual(await saver.getThread("registry-1"), {
+      thread_id: "registry-1",
+      created_at: 1000,
+      updated_at: 4000,
+      checkpoint_count: 3,
+      metadata: { owner: "jane" },
+    });
+    assert.strictEqual(await saver.getThread("registry-missing"), undefined);
+
+    const threadIds = (page: { threads: { thread_id: string }[] }) =>
+      page.threads.map((thread) => thread.thread_id);
+    assert.deepEqual(threadIds(await saver.listThreads()), [
+      "registry-1",
+      "registry-3",
+      "registry-2",
+    ]);
+    assert.deepEqual(
+      threadIds(await saver.listThreads({ orderBy: "created_at" })),
+      ["registry-3", "registry-2", "registry-1"]
+    );
+    assert.deepEqual(
+      threadIds(await saver.listThreads({ updatedBefore: 3500 })),
+      ["registry-3", "registry-2"]
+    );
+    assert.deepEqual(
+      threadIds(
+        await saver.listThreads({ orderBy: "created_at", updatedBefore: 3500 })
+      ),
+      ["registry-3", "registry-2"]
+    );
+
+    // Threads sharing a timestamp are neither skipped nor repeated
+    await putAt(3000, "registry-4", checkpoint1);
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await saver.listThreads({ cursor, limit: 1 });
+      pages.push(threadIds(page));
+      cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepEqual(pages, [
+      ["registry-1"],
+      ["registry-4"],
+      ["registry-3"],
+      ["registry-2"],
+    ]);
+
+    await saver.prune("registry-1", { maxCheckpointsPerThread: 1 });
+    await saver.deleteThread("registry-2");
+    assert.strictEqual(await saver.getThread("registry-2"), undefined);
+    const page = await saver.listThreads({ limit: 2 });
+    assert.deepEqual(threadIds(page), ["registry-1", "registry-4"]);
+    assert.strictEqual(page.threads[0].checkpoint_count, 2);
+    assert.ok(page.nextCursor);
+
+    // Index entries of expired threads are removed when listing
+    await redisClient.del(
+      saver.keySchema.threadKey("registry-3"),
+      saver.keySchema.namespacesKey("registry-3")
+    );
+    assert.deepEqual(threadIds(await saver.listThreads()), ["registry-1", "registry-4"]);
+    assert.strictEqual(await redisClient.zscore("thread_index", "registry-3"), null);
+    assert.strictEqual(await redisClient.zscore("thread_created_index", "registry-3"), null);
+
+    await assert.rejects(
+      () => saver.listThreads({ cursor: "not-a-cursor" }),
+      CheckpointValidationError
+    );
+    await assert.rejects(
+      () => saver.listThreads({ limit: 0 }),
+      /listThreads\(\) requires limit to be a positive integer/
+    );
+    await assert.rejects(
+      () => putAt(5000, "registry-1", checkpoint2, { thread_metadata: ["jane"] }),
+      /put\(\) requires config.configurable.thread_metadata to be an object/
+    );
+  });
+
+  await it("should page threads by creation time that were updated before a time", async () => {
+    await redisClient.flushall();
+
+    // Threads created at 1000..1300, of which only every tenth is idle
+    const realNow = Date.now;
+    try {
+      for (let i = 0; i < 300; i += 1) {
+        Date.now = () => 1000 + i;
+        const config = await saver.put(
+          { configurable: { thread_id: `created-${i}` } },
+          checkpoint1,
+          { source: "update", step: -1, writes: null }
+        );
+        if (i % 10 !== 0) {
+          Date.now = () => 5000 + i;
+          await saver.put(config, checkpoint2, { source: "loop", step: 0, parents: {} });
+        }
+      }
+    } finally {
+      Date.now = realNow;
+    }
+
+    // Pages are full and only the matching threads are loaded
+    const hgetall = redisClient.hgetall;
+    let loads = 0;
+    redisClient.hgetall = ((...args: Parameters<typeof hgetall>) => {
+      loads += 1;
+      return hgetall.apply(redisClient, args);
+    }) as typeof hgetall;
+    const pages: string[][] = [];
+    try {
+      let cursor: string | undefined;
+      do {
+        const page = await saver.listThreads({
+          cursor,
+          limit: 4,
+          orderBy: "created_at",
+          updatedBefore: 5000,
+        });
+        pages.push(page.threads.map((thread) => thread.thread_id));
+        cursor = page.nextCursor;
+      } while (cursor);
+    } finally {
+      redisClient.hgetall = hgetall;
+    }
+
+    const expected = Array.from({ length: 30 }, (_, i) => `created-${290 - i * 10}`);
+    assert.deepEqual(pages.flat(), expected);
+    assert.deepEqual(pages.map((page) => page.length), [4, 4, 4, 4, 4, 4, 4, 2]);
+    // A full page also loads the first thread of the next one
+    assert.strictEqual(loads, 30 + 7);
+  });
+
+  await it("should copy threads with their writes and TTL", async () => {
+    await redisClient.flushall();
+
+    const config1 = await saverWithTTL.put(
+      {
+        configurable: {
+          thread_id: "copy-source",
+          thread_metadata: { owner: "jane" },
+        },
+      },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await saverWithTTL.putWrites(config1, [["bar", "baz"]], "foo");
+    const config2 = await saverWithTTL.put(config1, checkpoint2, {
+      source: "loop",
+      step: 0,
+      parents: {},
+    });
+    await saverWithTTL.putWrites(config2, [["qux", "quux"]], "task2");
+
+    const copyConfig = await saverWithTTL.copyThread(
+      { configurable: { thread_id: "copy-source" } },
+      "copy-target"
+    );
+    assert.deepEqual(copyConfig, {
+      configurable: {
+        thread_id: "copy-target",
+        checkpoint_ns: "",
+        checkpoint_id: checkpoint2.id,
+      },
+    });
+
+    const source = await saverWithTTL.getTuple(config2);
+    const copy = await saverWithTTL.getTuple(copyConfig);
+    assert.deepEqual(copy?.checkpoint, source?.checkpoint);
+    assert.deepEqual(copy?.metadata, source?.metadata);
+    assert.deepEqual(copy?.pendingWrites, [["task2", "qux", "quux"]]);
+    assert.deepEqual(copy?.parentConfig, {
+      configurable: {
+        thread_id: "copy-target",
+        checkpoint_ns: "",
+        checkpoint_id: checkpoint1.id,
+      },
+    });
+    assert.deepEqual(
+      await redisClient.hgetallBuffer(`checkpoint:copy-target::${checkpoint2.id}`),
+      await redisClient.hgetallBuffer(`checkpoint:copy-source::${checkpoint2.id}`)
+    );
+    for (const key of await redisClient.keys("*copy-target*")) {
+      const ttl = await redisClient.ttl(key);
+      assert.ok(ttl > 0 && ttl <= 60, `${key} should expire`);
+    }
+    const sourceThread = await saverWithTTL.getThread("copy-source");
+    const targetThread = await saverWithTTL.getThread("copy-target");
+    assert.deepEqual(targetThread?.metadata, { owner: "jane" });
+    assert.strictEqual(targetThread?.created_at, sourceThread?.created_at);
+
+    // Branch from the first checkpoint
+    const branchConfig = await saverWithTTL.copyThread(config1, "copy-branch");
+    assert.strictEqual(branchConfig.configurable?.checkpoint_id, checkpoint1.id);
+    const branch: CheckpointTuple[] = [];
+    for await (const item of saverWithTTL.list({
+      configurable: { thread_id: "copy-branch" },
+    })) {
+      branch.push(item);
+    }
+    assert.deepEqual(
+      branch.map((item) => item.checkpoint.id),
+      [checkpoint1.id]
+    );
+    assert.deepEqual(
+      (await saverWithTTL.getTuple(branchConfig))?.pendingWrites,
+      [["foo", "bar", "baz"]]
+    );
+
+    // Only the parent chain is copied, not sibling branches, together with
+    // the subgraph checkpoints that ran under it
+    const checkpoint3: Checkpoint = { ...checkpoint2, id: uuid6(2) };
+    await saverWithTTL.put(config1, checkpoint3, {
+      source: "loop",
+      step: 0,
+      parents: {},
+    });
+    const subgraphIds = [uuid6(3), uuid6(4), uuid6(5)];
+    const subgraphs: [string, Record<string, string>][] = [
+      ["inner:1", { "": checkpoint1.id }],
+      ["inner:1|deep:1", { "": checkpoint1.id, "inner:1": subgraphIds[0] }],
+      ["inner:2", { "": checkpoint2.id }],
+    ];
+    for (const [i, [checkpoint_ns, parents]] of subgraphs.entries()) {
+      await saverWithTTL.put(
+        { configurable: { thread_id: "copy-source", checkpoint_ns } },
+        { ...checkpoint1, id: subgraphIds[i] },
+        { source: "loop", step: 0, parents }
+      );
+    }
+    const chainConfig = await saverWithTTL.copyThread(
+      { configurable: { thread_id: "copy-source" } },
+      "copy-chain",
+      { upToCheckpointId: checkpoint3.id }
+    );
+    assert.strictEqual(chainConfig.configurable?.checkpoint_id, checkpoint3.id);
+    const chain: CheckpointTuple[] = [];
+    for await (const item of saverWithTTL.list({
+      configurable: { thread_id: "copy-chain", checkpoint_ns: "" },
+    })) {
+      chain.push(item);
+    }
+    assert.deepEqual(
+      chain.map((item) => item.checkpoint.id),
+      [checkpoint3.id, checkpoint1.id]
+    );
+    assert.deepEqual(
+      (await saverWithTTL.getTuple(chain[1].config))?.pendingWrites,
+      [["foo", "bar", "baz"]]
+    );
+    assert.deepEqual(
+      (await redisClient.smembers("checkpoint_namespaces:copy-chain")).sort(),
+      ["", "inner:1", "inner:1|deep:1"]
+    );
+    assert.ok(
+      await saverWithTTL.getTuple({
+        configurable: { thread_id: "copy-chain", checkpoint_ns: "inner:1|deep:1" },
+      })
+    );
+
+    await assert.rejects(
+      () =>
+        saverWithTTL.copyThread(
+          { configurable: { thread_id: "copy-source" } },
+          "copy-target"
+        ),
+      /copyThread\(\) requires a new target thread/
+    );
+    await assert.rejects(
+      () =>
+        saverWithTTL.copyThread(
+          { configurable: { thread_id: "copy-source" } },
+          "copy-missing",
+          { upToCheckpointId: "missing" }
+        ),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointValidationError);
+        assert.match(error.message, /could not find checkpoint missing/);
+        return true;
+      }
+    );
+  });
+
+  await it("should export and import threads as NDJSON", async () => {
+    await redisClient.flushall();
+
+    const config1 = await saverWithTTL.put(
+      {
+        configurable: {
+          thread_id: "export-test",
+          thread_metadata: { owner: "jane" },
+        },
+      },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+    await saverWithTTL.putWrites(config1, [["bar", "baz"]], "foo");
+    const config2 = await saverWithTTL.put(config1, checkpoint2, {
+      source: "loop",
+      step: 0,
+      parents: {},
+    });
+    await saverWithTTL.putWrites(config2, [["qux", "quux"]], "task2");
+    await saverWithTTL.put(
+      { configurable: { thread_id: "export-test", checkpoint_ns: "inner" } },
+      checkpoint1,
+      { source: "update", step: -1, writes: null }
+    );
+
+    const lines: string[] = [];
+    for await (const line of saverWithTTL.exportThread("export-test")) {
+      lines.push(line);
+    }
+    const records = lines.map((line) => JSON.parse(line));
+    assert.deepEqual(
+      records.map((record) => record.type),
+      ["thread", "checkpoint", "write", "checkpoint", "write", "checkpoint"]
+    );
+    assert.strictEqual(records[0].version, 1);
+    assert.deepEqual(records[0].metadata, { owner: "jane" });
+    assert.ok(records.every((record) => record.ttl_ms > 0 && record.ttl_ms <= 60_000));
+
+    const keys = (await redisClient.keys("*export-test*")).sort();
+    const snapshot = await Promise.all(
+      keys.map((key) => redisClient.type(key))
+    );
+    const checkpointKey = `checkpoint:export-test::${checkpoint2.id}`;
+    const stored = await redisClient.hgetallBuffer(checkpointKey);
+    const tuple = await saverWithTTL.getTuple(config2);
+
+    await redisClient.flushall();
+
+    // Feed the export in chunks that split lines
+    const exported = Buffer.from(lines.join(""));
+    const chunks = [];
+    for (let i = 0; i < exported.length; i += 100) {
+      chunks.push(exported.subarray(i, i + 100));
+    }
+    assert.deepEqual(await saverWithTTL.importThread(chunks), {
+      thread_id: "export-test",
+      checkpoints: 3,
+      writes: 2,
+      skipped: 0,
+    });
+
+    const importedKeys = (await redisClient.keys("*export-test*")).sort();
+    assert.deepEqual(importedKeys, keys);
+    assert.deepEqual(
+      await Promise.all(importedKeys.map((key) => redisClient.type(key))),
+      snapshot
+    );
+    assert.deepEqual(await redisClient.hgetallBuffer(checkpointKey), stored);
+    assert.deepEqual(await saverWithTTL.getTuple(config2), tuple);
+    for (const key of importedKeys) {
+      const ttl = await redisClient.ttl(key);
+      assert.ok(ttl > 0 && ttl <= 60, `${key} should expire`);
+    }
+    assert.deepEqual((await saverWithTTL.getThread("export-test"))?.metadata, {
+      owner: "jane",
+    });
+
+    assert.deepEqual(await saverWithTTL.importThread(lines), {
+      thread_id: "export-test",
+      checkpoints: 0,
+      writes: 0,
+      skipped: 5,
+    });
+    await redisClient.hset(checkpointKey, "parent_checkpoint_id", "changed");
+    assert.strictEqual(
+      (await saverWithTTL.importThread(lines, { onConflict: "overwrite" })).checkpoints,
+      3
+    );
+    assert.deepEqual(await redisClient.hgetallBuffer(checkpointKey), stored);
+
+    const renamed = await saverWithTTL.importThread(lines, {
+      threadId: "export-copy",
+    });
+    assert.strictEqual(renamed.checkpoints, 3);
+    const copy = await saverWithTTL.getTuple({
+      configurable: { thread_id: "export-copy" },
+    });
+    assert.deepEqual(copy?.checkpoint, tuple?.checkpoint);
+    assert.deepEqual(copy?.pendingWrites, tuple?.pendingWrites);
+
+    await assert.rejects(
+      () => saverWithTTL.importThread([lines[1]]),
+      /importThread\(\) requires a thread export in format version 1/
+    );
+    await assert.rejects(
+      () => saverWithTTL.importThread([lines[0], "{not json"]),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointSerializationError);
+        assert.match(error.message, /Failed to parse line 2 of thread export/);
+        return true;
+      }
+    );
+
+    // Malformed records are rejected before anything is written
+    await redisClient.flushall();
+    const checkpointLine = JSON.parse(lines[1]);
+    const invalidRecords: [Record<string, unknown>, RegExp][] = [
+      [{ ...checkpointLine, checkpoint_id: 42 }, /checkpoint_id must be a non-empty string/],
+      [{ ...checkpointLine, checkpoint_ns: null }, /checkpoint_ns must be a string/],
+      [{ ...checkpointLine, fields: { checkpoint: 1 } }, /field checkpoint must be a base64 string/],
+      [{ ...checkpointLine, ttl_ms: -5 }, /ttl_ms must be a positive integer/],
+      [{ ...checkpointLine, type: "write", task_id: "task1", idx: "0" }, /idx must be an integer/],
+      [{ ...checkpointLine, type: "blob" }, /unknown record type "blob"/],
+    ];
+    for (const [record, message] of invalidRecords) {
+      await assert.rejects(
+        () => saverWithTTL.importThread([...lines, JSON.stringify(record)]),
+        (error: any) => {
+          assert.ok(error instanceof CheckpointValidationError);
+          assert.match(error.message, new RegExp(`invalid record ${lines.length + 1} on line ${lines.length + 1}`));
+          assert.match(error.message, message);
+          return true;
+        }
+      );
+    }
+    assert.deepEqual(await redisClient.keys("*"), []);
+
+    await assert.rejects(
+      () => saverWithTTL.exportThread("export-missing").next(),
+      /exportThread\(\) could not find thread: export-missing/
+    );
+  });
+
+  await it("should reject puts whose parent is no longer the latest checkpoint", async () => {
+    await redisClient.flushall();
+    const guarded = new RedisSaver({ connection: redisClient, optimisticConcurrency: true });
+    const metadata = { source: "loop" as const, step: 0, parents: {} };
+    const config1 = await guarded.put({ configurable: { thread_id: "occ" } }, checkpoint1, metadata);
+
+    // A second writer creating the same thread conflicts as well
+    await assert.rejects(
+      () => guarded.put({ configurable: { thread_id: "occ" } }, checkpoint2, metadata),
+      CheckpointConflictError
+    );
+
+    const checkpoint3 = { ...checkpoint2, id: uuid6(2) };
+    await guarded.put(config1, checkpoint2, metadata);
+    await assert.rejects(
+      () => guarded.put(config1, checkpoint3, metadata),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointConflictError);
+        assert.strictEqual(error.thread_id, "occ");
+        assert.strictEqual(error.checkpoint_id, checkpoint3.id);
+        assert.match(
+          error.message,
+          new RegExp(`parent ${checkpoint1.id} is no longer the latest checkpoint, ${checkpoint2.id} is`)
+        );
+        return true;
+      }
+    );
+    assert.strictEqual(
+      await redisClient.exists(guarded.keySchema.checkpointKey("occ", "", checkpoint3.id)),
+      0
+    );
+
+    // Saving the latest checkpoint again, as a retry does, succeeds
+    await guarded.put(config1, checkpoint2, metadata);
+    const latest = await guarded.getTuple({ configurable: { thread_id: "occ" } });
+    assert.deepEqual(latest?.checkpoint, checkpoint2);
+    assert.strictEqual(latest?.parentConfig?.configurable?.checkpoint_id, checkpoint1.id);
+    assert.strictEqual((await guarded.getThread("occ"))?.checkpoint_count, 2);
+
+    // Namespaces are checked separately, and saving without the option
+    // still branches silently
+    await guarded.put({ configurable: { thread_id: "occ", checkpoint_ns: "inner" } }, checkpoint3, metadata);
+    await saver.put(config1, checkpoint3, metadata);
+
+    // The thread registry, TTLs and change feed are saved atomically with
+    // the checkpoint, and a rejected put leaves none of them behind
+    await redisClient.flushall();
+    const tracked = new RedisSaver({
+      connection: redisClient,
+      optimisticConcurrency: true,
+      ttl: 60,
+      changeFeed: { maxLen: 100 },
+    });
+    await tracked.put(
+      { configurable: { thread_id: "occ-tracked", thread_metadata: { owner: "jane" } } },
+      checkpoint1,
+      metadata
+    );
+    await assert.rejects(
+      () => tracked.put({ configurable: { thread_id: "occ-tracked" } }, checkpoint2, metadata),
+      CheckpointConflictError
+    );
+    const thread = await tracked.getThread("occ-tracked");
+    assert.deepEqual(thread?.metadata, { owner: "jane" });
+    assert.strictEqual(thread?.checkpoint_count, 1);
+    assert.ok(await redisClient.zscore("thread_index", "occ-tracked"));
+    assert.ok(await redisClient.zscore("thread_created_index", "occ-tracked"));
+    for (const key of await redisClient.keys("*occ-tracked*")) {
+      const ttl = await redisClient.ttl(key);
+      assert.ok(ttl > 0 && ttl <= 60, `${key} should expire`);
+    }
+    const events = await redisClient.xrange(tracked.keySchema.changeFeedKey(), "-", "+");
+    assert.deepEqual(
+      events.map(([, fields]) => fields),
+      [[
+        "type", "checkpoint",
+        "thread_id", "occ-tracked",
+        "checkpoint_ns", "",
+        "checkpoint_id", checkpoint1.id,
+        "step", "0",
+      ]]
+    );
+  });
+
+  await it("should grant thread leases to one holder at a time", async () => {
+    await redisClient.flushall();
+    const lease = await saver.acquireThreadLease("leased", { ttlMs: 1000 });
+    assert.strictEqual(lease.thread_id, "leased");
+    assert.ok(lease.expires_at > Date.now());
+
+    await assert.rejects(
+      () => saver.acquireThreadLease("leased", { waitMs: 60 }),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointConflictError);
+        assert.match(error.message, /held by someone else. Thread: leased/);
+        return true;
+      }
+    );
+
+    const renewed = await saver.renewThreadLease(lease, { ttlMs: 5000 });
+    assert.ok(renewed.expires_at >= lease.expires_at);
+    const pttl = await redisClient.pttl(saver.keySchema.threadLeaseKey("leased"));
+    assert.ok(pttl > 1000 && pttl <= 5000, `Expected a renewed TTL, got ${pttl}`);
+
+    // A waiting caller gets the lease once it is released
+    const waiting = saver.acquireThreadLease("leased", { waitMs: 1000 });
+    await sleep(60);
+    assert.strictEqual(await saver.releaseThreadLease(renewed), true);
+    const next = await waiting;
+    assert.notStrictEqual(next.token, lease.token);
+
+    // The previous holder can no longer renew or release it
+    assert.strictEqual(await saver.releaseThreadLease(lease), false);
+    await assert.rejects(() => saver.renewThreadLease(lease), CheckpointConflictError);
+    await assert.rejects(
+      () => saver.acquireThreadLease("leased", { ttlMs: 0 }),
+      CheckpointValidationError
+    );
+  });
+
+  await it("should stream new checkpoints and writes to subscribers", async () => {
+    await redisClient.flushall();
+    const connection = new Redis();
+    // ioredis-mock never wakes blocked reads, so the subscriber polls instead.
+    // Its connections share data, unlike the ones duplicate() returns.
+    connection.duplicate = () => {
+      const subscriber = new Redis();
+      const xread = subscriber.xread.bind(subscriber);
+      subscriber.xread = (async (...args: any[]) => {
+        const reply = await xread(...(args.filter((_, i) => i !== 2 && i !== 3) as [any]));
+        if (!reply?.[0]?.[1].length) {
+          await sleep(5);
+        }
+        return reply;
+      }) as any;
+      return subscriber;
+    };
+    const publisher = new RedisSaver({ connection, changeFeed: { maxLen: 100 } });
+    const metadata = { source: "loop" as const, step: 3, parents: {} };
+    await publisher.put({ configurable: { thread_id: "feed-0" } }, checkpoint1, metadata);
+
+    const controller = new globalThis.AbortController();
+    const events: any[] = [];
+    const subscription = (async () => {
+      for await (const event of publisher.subscribe({ pattern: "feed-[12]" }, { signal: controller.signal })) {
+        events.push(event);
+        if (events.length === 2) {
+          controller.abort();
+        }
+      }
+    })();
+    await sleep(20);
+
+    const config2 = await publisher.put({ configurable: { thread_id: "feed-1" } }, checkpoint2, metadata);
+    await publisher.put({ configurable: { thread_id: "feed-3" } }, checkpoint2, metadata);
+    await publisher.putWrites(config2, [["a", 1], ["b", 2], ["a", 3]], "task1");
+    await subscription;
+
+    for (const event of events) {
+      assert.match(event.id, /^\d+-\d+$/);
+      delete event.id;
+    }
+    assert.deepEqual(
+      events,
+      [
+        {
+          type: "checkpoint",
+          thread_id: "feed-1",
+          checkpoint_ns: "",
+          checkpoint_id: checkpoint2.id,
+          step: 3,
+        },
+        {
+          type: "writes",
+          thread_id: "feed-1",
+          checkpoint_ns: "",
+          checkpoint_id: checkpoint2.id,
+          task_id: "task1",
+          channels: ["a", "b"],
+        },
+      ]
+    );
+
+    // Thread IDs are matched literally, glob characters included
+    const literalController = new globalThis.AbortController();
+    const literalEvents: any[] = [];
+    const literalSubscription = (async () => {
+      for await (const event of publisher.subscribe("feed-[12]", { signal: literalController.signal })) {
+        literalEvents.push(event);
+        literalController.abort();
+      }
+    })();
+    await sleep(20);
+    await publisher.put({ configurable: { thread_id: "feed-1" } }, checkpoint1, metadata);
+    await publisher.put({ configurable: { thread_id: "feed-[12]" } }, checkpoint1, metadata);
+    await literalSubscription;
+    assert.deepEqual(literalEvents.map((event) => event.thread_id), ["feed-[12]"]);
+
+    // Savers without the option publish nothing
+    await redisClient.flushall();
+    await saver.put({ configurable: { thread_id: "feed-4" } }, checkpoint1, metadata);
+    assert.strictEqual(await redisClient.exists(saver.keySchema.changeFeedKey()), 0);
+    await assert.rejects(
+      () => publisher.subscribe("").next(),
+      CheckpointValidationError
+    );
+    await assert.rejects(
+      () => publisher.subscribe({ pattern: "" }).next(),
+      CheckpointValidationError
+    );
+  });
+
+  await it("should share change feed events within a consumer group", async () => {
+    const key = saver.keySchema.changeFeedKey();
+    const calls: string[] = [];
+    const fields = ["type", "checkpoint", "thread_id", "grouped", "checkpoint_ns", "", "checkpoint_id", "c1"];
+    const replies: any[] = [
+      [[key, [["1-0", fields], ["2-0", null]]]], // Pending before a restart
+      [[key, []]],
+      [[key, [["3-0", [...fields.slice(0, 3), "other", ...fields.slice(4)]], ["4-0", [...fields.slice(0, 7), "c2"]]]]],
+    ];
+    const connection = new Redis();
+    connection.duplicate = () =>
+      ({
+        xgroup: async (...args: string[]) => {
+          calls.push(`xgroup ${args.join(" ")}`);
+          throw new Error("BUSYGROUP Consumer Group name already exists");
+        },
+        xreadgroup: async (...args: any[]) => {
+          calls.push(`xreadgroup ${args.slice(-1)}`);
+          return replies.shift() ?? null;
+        },
+        xack: async (...args: string[]) => {
+          calls.push(`xack ${args.slice(-1)}`);
+          return 1;
+        },
+        disconnect: () => calls.push("disconnect"),
+      }) as any;
+    const consumer = new RedisSaver({ connection });
+
+    const ids: string[] = [];
+    // Events of other threads are acknowledged without being yielded
+    for await (const event of consumer.subscribe("grouped", { group: "workers", consumer: "w1" })) {
+      ids.push(event.checkpoint_id);
+      if (ids.length === 2) {
+        break;
+      }
+    }
+    assert.deepEqual(ids, ["c1", "c2"]);
+    assert.deepEqual(calls, [
+      `xgroup CREATE ${key} workers $ MKSTREAM`,
+      "xreadgroup 0",
+      "xack 1-0",
+      "xack 2-0",
+      "xreadgroup 0",
+      "xreadgroup >",
+      "xack 3-0",
+      "disconnect",
+    ]);
+
+    // Consumers resume their unacknowledged events under stable names
+    await assert.rejects(
+      () => consumer.subscribe({ pattern: "*" }, { group: "workers" }).next(),
+      (error: any) => {
+        assert.ok(error instanceof CheckpointValidationError);
+        assert.match(error.message, /requires a consumer name/);
+        return true;
+      }
+    );
   });
 
   await it("should handle deleteThread with non-existent thread gracefully", async () => {
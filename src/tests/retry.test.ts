@@ -0,0 +1,157 @@
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+
+import { RedisCheckpointCircuitOpenError } from "../errors.js";
+import { CircuitBreaker, isRetryableRedisError, withRetry } from "../retry.js";
+
+const connectionError = () =>
+  Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:6379"), {
+    code: "ECONNREFUSED",
+  });
+
+await describe("Redis Checkpoint Retry", async () => {
+  await describe("isRetryableRedisError", async () => {
+    await it("should retry connection errors and failover replies", async () => {
+      assert.ok(isRetryableRedisError(connectionError()));
+      assert.ok(isRetryableRedisError(new Error("Connection is closed.")));
+      assert.ok(
+        isRetryableRedisError(
+          new Error("READONLY You can't write against a read only replica.")
+        )
+      );
+      assert.ok(isRetryableRedisError(new Error("LOADING Redis is loading")));
+    });
+
+    await it("should not retry command errors", async () => {
+      assert.ok(
+        !isRetryableRedisError(
+          new Error("WRONGTYPE Operation against a key holding the wrong kind of value")
+        )
+      );
+      assert.ok(!isRetryableRedisError(new SyntaxError("Unexpected token")));
+      assert.ok(!isRetryableRedisError("ECONNREFUSED"));
+    });
+  });
+
+  await describe("withRetry", async () => {
+    await it("should retry retryable errors until an attempt succeeds", async () => {
+      let attempts = 0;
+      const result = await withRetry(
+        async () => {
+          attempts += 1;
+          if (attempts < 3) {
+            throw connectionError();
+          }
+          return "ok";
+        },
+        { maxAttempts: 3, initialDelayMs: 1 }
+      );
+      assert.equal(result, "ok");
+      assert.equal(attempts, 3);
+    });
+
+    await it("should give up after maxAttempts", async () => {
+      let attempts = 0;
+      await assert.rejects(
+        () =>
+          withRetry(
+            async () => {
+              attempts += 1;
+              throw connectionError();
+            },
+            { maxAttempts: 2, initialDelayMs: 1 }
+          ),
+        { code: "ECONNREFUSED" }
+      );
+      assert.equal(attempts, 2);
+    });
+
+    await it("should not retry errors rejected by isRetryable", async () => {
+      let attempts = 0;
+      await assert.rejects(
+        () =>
+          withRetry(
+            async () => {
+              attempts += 1;
+              throw connectionError();
+            },
+            { maxAttempts: 5, initialDelayMs: 1, isRetryable: () => false }
+          ),
+        { code: "ECONNREFUSED" }
+      );
+      assert.equal(attempts, 1);
+    });
+
+    await it("should stop retrying once the circuit opens", async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 2 });
+      let attempts = 0;
+      await assert.rejects(
+        () =>
+          withRetry(
+            async () => {
+              attempts += 1;
+              throw connectionError();
+            },
+            { maxAttempts: 5, initialDelayMs: 1 },
+            circuitBreaker
+          ),
+        RedisCheckpointCircuitOpenError
+      );
+      assert.equal(attempts, 2);
+      assert.equal(circuitBreaker.state, "open");
+    });
+  });
+
+  await describe("CircuitBreaker", async () => {
+    await it("should open, allow a trial call after the reset timeout and close", async () => {
+      const circuitBreaker = new CircuitBreaker({
+        failureThreshold: 2,
+        resetTimeoutMs: 1000,
+      });
+      const fail = () => Promise.reject(connectionError());
+
+      await assert.rejects(() => circuitBreaker.execute(fail));
+      assert.equal(circuitBreaker.state, "closed");
+      await assert.rejects(() => circuitBreaker.execute(fail));
+      assert.equal(circuitBreaker.state, "open");
+
+      let called = false;
+      await assert.rejects(
+        () =>
+          circuitBreaker.execute(async () => {
+            called = true;
+          }),
+        RedisCheckpointCircuitOpenError
+      );
+      assert.ok(!called, "Calls should fail fast while the circuit is open");
+
+      const realNow = Date.now;
+      Date.now = () => realNow() + 2000;
+      try {
+        assert.equal(circuitBreaker.state, "half-open");
+
+        // A failed trial call reopens the circuit right away
+        await assert.rejects(() => circuitBreaker.execute(fail));
+        assert.equal(circuitBreaker.state, "open");
+      } finally {
+        Date.now = realNow;
+      }
+
+      Date.now = () => realNow() + 4000;
+      try {
+        assert.equal(await circuitBreaker.execute(async () => "ok"), "ok");
+        assert.equal(circuitBreaker.state, "closed");
+      } finally {
+        Date.now = realNow;
+      }
+    });
+
+    await it("should not count command errors as failures", async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 });
+      await assert.rejects(() =>
+        circuitBreaker.execute(() => Promise.reject(new Error("WRONGTYPE")))
+      );
+      assert.equal(circuitBreaker.state, "closed");
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, it, beforeEach, after } from "node:test";
+import { strict as assert } from "node:assert";
+import { setTimeout as sleep } from "node:timers/promises";
+import { InvalidNamespaceError } from "@langchain/langgraph-checkpoint";
+import Redis from "ioredis-mock";
+
+import { RedisStore } from "../store.js";
+import { RedisSaver } from "../redis-saver.js";
+import { CheckpointValidationError } from "../errors.js";
+import { decodeRedisVector } from "../utils.js";
+
+const redisClient = new Redis();
+const store = new RedisStore({ connection: redisClient });
+
+// Counts topic words, so texts about the same topic point the same way
+const VOCABULARY = ["tea", "coffee", "redis", "python"];
+const embedded: string[] = [];
+const embeddings = async (texts: string[]) => {
+  embedded.push(...texts);
+  return texts.map((text) =>
+    VOCABULARY.map((word) => text.toLowerCase().split(word).length - 1)
+  );
+};
+
+// ioredis-mock has no generic call(), so reply like a server without the
+// search module
+(redisClient as any).call = async (command: string) => {
+  throw new Error(`ERR unknown command '${command}', with args beginning with:`);
+};
+
+beforeEach(async () => {
+  await redisClient.flushall();
+});
+
+after(async () => {
+  await redisClient.quit();
+});
+
+await describe("RedisStore", async () => {
+  await it("should put, get and delete items", async () => {
+    assert.strictEqual(await store.get(["users", "u1"], "profile"), null);
+
+    await store.put(["users", "u1"], "profile", { name: "Ada", tags: ["admin"] });
+    const item = await store.get(["users", "u1"], "profile");
+    assert.deepEqual(item?.value, { name: "Ada", tags: ["admin"] });
+    assert.strictEqual(item?.key, "profile");
+    assert.deepEqual(item?.namespace, ["users", "u1"]);
+    assert.ok(item?.createdAt instanceof Date);
+
+    await sleep(2);
+    await store.put(["users", "u1"], "profile", { name: "Ada Lovelace" });
+    const updated = await store.get(["users", "u1"], "profile");
+    assert.deepEqual(updated?.value, { name: "Ada Lovelace" });
+    assert.deepEqual(updated?.createdAt, item?.createdAt);
+    assert.ok(updated!.updatedAt > item!.updatedAt);
+
+    await store.delete(["users", "u1"], "profile");
+    assert.strictEqual(await store.get(["users", "u1"], "profile"), null);
+    assert.deepEqual(await store.search(["users"]), []);
+  });
+
+  await it("should search by namespace prefix with filter and pagination", async () => {
+    await store.put(["docs", "a"], "d1", { kind: "note", priority: 1 });
+    await sleep(2);
+    await store.put(["docs", "a", "nested"], "d2", { kind: "note", priority: 5 });
+    await sleep(2);
+    await store.put(["docs", "b"], "d3", { kind: "todo", priority: 3 });
+    await store.put(["docs-archive"], "d4", { kind: "note", priority: 2 });
+
+    // Newest first
+    assert.deepEqual(
+      (await store.search(["docs"])).map((item) => item.key),
+      ["d3", "d2", "d1"]
+    );
+    assert.deepEqual(
+      (await store.search(["docs", "a"])).map((item) => item.key),
+      ["d2", "d1"]
+    );
+    assert.deepEqual(
+      (await store.search([])).map((item) => item.key).sort(),
+      ["d1", "d2", "d3", "d4"]
+    );
+
+    const notes = await store.search(["docs"], {
+      filter: { kind: "note", priority: { $gte: 2 } },
+    });
+    assert.deepEqual(notes.map((item) => item.key), ["d2"]);
+    assert.strictEqual(notes[0].score, undefined);
+
+    // Only the items up to the end of the page are loaded
+    const hgetall = redisClient.hgetall;
+    let loads = 0;
+    redisClient.hgetall = ((...args: Parameters<typeof hgetall>) => {
+      loads += 1;
+      return hgetall.apply(redisClient, args);
+    }) as typeof hgetall;
+    const page = await store.search(["docs"], { limit: 1, offset: 1 });
+    redisClient.hgetall = hgetall;
+    assert.deepEqual(page.map((item) => item.key), ["d2"]);
+    assert.strictEqual(loads, 2);
+
+    await assert.rejects(
+      () => store.search(["docs"], { limit: 0 }),
+      CheckpointValidationError
+    );
+  });
+
+  await it("should list namespaces", async () => {
+    await store.put(["users", "u1", "memories"], "m1", { text: "likes tea" });
+    await store.put(["users", "u2", "memories"], "m1", { text: "likes coffee" });
+    await store.put(["users", "u2", "settings"], "s1", { theme: "dark" });
+    await store.put(["docs"], "d1", { title: "Readme" });
+
+    assert.deepEqual(await store.listNamespaces(), [
+      ["docs"],
+      ["users", "u1", "memories"],
+      ["users", "u2", "memories"],
+      ["users", "u2", "settings"],
+    ]);
+    assert.deepEqual(
+      await store.listNamespaces({ prefix: ["users", "*"], suffix: ["memories"] }),
+      [
+        ["users", "u1", "memories"],
+        ["users", "u2", "memories"],
+      ]
+    );
+    assert.deepEqual(await store.listNamespaces({ maxDepth: 2 }), [
+      ["docs"],
+      ["users", "u1"],
+      ["users", "u2"],
+    ]);
+    assert.deepEqual(await store.listNamespaces({ limit: 2, offset: 1 }), [
+      ["users", "u1", "memories"],
+      ["users", "u2", "memories"],
+    ]);
+
+    // Namespaces without items are hidden
+    await store.delete(["docs"], "d1");
+    assert.deepEqual(await store.listNamespaces({ maxDepth: 1 }), [["users"]]);
+  });
+
+  await it("should expire items with a TTL", async () => {
+    const storeWithTTL = new RedisStore({ connection: redisClient, ttl: 60 });
+    await storeWithTTL.put(["cache"], "default", { value: 1 });
+    await storeWithTTL.put(["cache"], "short", { value: 2 }, undefined, { ttl: 1 });
+    await storeWithTTL.batch([
+      { namespace: ["cache"], key: "batched", value: { value: 3 }, ttl: 1 },
+    ]);
+
+    const ttl = await redisClient.ttl(storeWithTTL.keySchema.itemKey(["cache"], "default"));
+    assert.ok(ttl > 0 && ttl <= 60, `Expected TTL of at most 60 seconds, got ${ttl}`);
+    assert.strictEqual(
+      await redisClient.ttl(storeWithTTL.keySchema.itemKey(["cache"], "short")),
+      1
+    );
+
+    await sleep(1100);
+    assert.strictEqual(await storeWithTTL.get(["cache"], "short"), null);
+    assert.deepEqual(
+      (await storeWithTTL.search(["cache"])).map((item) => item.key),
+      ["default"]
+    );
+
+    // Rewriting an item without a TTL makes it persistent
+    await store.put(["cache"], "default", { value: 4 });
+    assert.strictEqual(
+      await redisClient.ttl(store.keySchema.itemKey(["cache"], "default")),
+      -1
+    );
+
+    // The write also pruned the expired items from the namespace indexes
+    for (const indexKey of [
+      store.keySchema.namespaceKey(["cache"]),
+      store.keySchema.namespaceUpdatedKey(["cache"]),
+    ]) {
+      assert.deepEqual(await redisClient.zrange(indexKey, 0, -1), ["default"]);
+    }
+  });
+
+  await it("should apply only the last put of an item in a batch", async () => {
+    await store.put(["docs"], "d1", { version: 1 });
+    const [before, , , search] = await store.batch([
+      { namespace: ["docs"], key: "d1" },
+      { namespace: ["docs"], key: "d1", value: { version: 2 } },
+      { namespace: ["docs"], key: "d1", value: { version: 3 } },
+      { namespacePrefix: ["docs"], limit: 10, offset: 0 },
+    ]);
+    assert.deepEqual(before?.value, { version: 1 });
+    assert.deepEqual(search.map((item) => item.value), [{ version: 1 }]);
+    assert.deepEqual((await store.get(["docs"], "d1"))?.value, { version: 3 });
+  });
+
+  await it("should validate namespaces", async () => {
+    for (const namespace of [[], ["a.b"], [""], ["langgraph", "x"]]) {
+      await assert.rejects(
+        () => store.batch([{ namespace, key: "k", value: { v: 1 } }]),
+        InvalidNamespaceError,
+        `${JSON.stringify(namespace)} should be rejected`
+      );
+    }
+    await assert.rejects(
+      () => store.put(["docs"], "k", { v: 1 }, undefined, { ttl: 0 }),
+      CheckpointValidationError
+    );
+    assert.throws(
+      () => new RedisStore({ connection: redisClient, ttl: -1 }),
+      CheckpointValidationError
+    );
+  });
+
+  await it("should rank items by similarity without RediSearch", async () => {
+    const vectorStore = new RedisStore({
+      connection: redisClient,
+      index: { dims: 4, embeddings, fields: ["text", "tags[*]"] },
+    });
+    await vectorStore.put(["memories", "u1"], "m1", { text: "Drinks tea, more tea", tags: ["tea"] });
+    await vectorStore.put(["memories", "u1"], "m2", { text: "Writes Python", tags: ["redis", "python"] });
+    await vectorStore.put(["memories", "u2"], "m3", { text: "Loves coffee" });
+    await vectorStore.put(["memories", "u1"], "m4", { text: "Not indexed tea" }, false);
+
+    // Every text is embedded once per batch
+    assert.deepEqual(embedded.splice(0).sort(), [
+      "Drinks tea, more tea",
+      "Loves coffee",
+      "Writes Python",
+      "python",
+      "redis",
+      "tea",
+    ]);
+    const m2 = vectorStore.keySchema.vectorKey(["memories", "u1"], "m2", "tags[*].1");
+    assert.deepEqual(
+      decodeRedisVector((await redisClient.hgetBuffer(m2, "embedding"))!),
+      [0, 0, 0, 1]
+    );
+
+    const results = await vectorStore.search(["memories"], { query: "tea or python" });
+    assert.deepEqual(results.map((item) => item.key), ["m1", "m2", "m3"]);
+    assert.ok(Math.abs(results[0].score! - Math.SQRT1_2) < 1e-6);
+    assert.strictEqual(results[2].score, 0);
+
+    const filtered = await vectorStore.search(["memories", "u1"], {
+      query: "python",
+      filter: { tags: { $in: [["redis", "python"]] } },
+      limit: 1,
+    });
+    assert.deepEqual(filtered.map((item) => item.key), ["m2"]);
+    assert.strictEqual(filtered[0].score, 1);
+
+    // Rewriting an item replaces its vectors, and deleting removes them
+    await vectorStore.put(["memories", "u1"], "m2", { text: "Uses Redis" });
+    assert.strictEqual(await redisClient.exists(m2), 0);
+    await vectorStore.delete(["memories", "u1"], "m2");
+    assert.deepEqual(
+      (await redisClient.keys("store_vector:*")).sort(),
+      [
+        "store_vector:memories.u1:m1:tags[*]",
+        "store_vector:memories.u1:m1:text",
+        "store_vector:memories.u2:m3:text",
+      ].map((key) => key.replace("[*]", "%5B%2A%5D"))
+    );
+
+    // Searches without a query keep their order
+    assert.deepEqual(
+      (await vectorStore.search(["memories"])).map((item) => item.key),
+      ["m4", "m3", "m1"]
+    );
+  });
+
+  await it("should query the RediSearch vector index when available", async () => {
+    const connection = new Redis();
+    const commands: unknown[][] = [];
+    (connection as any).call = async (...args: unknown[]) => {
+      commands.push(args);
+      if (args[0] === "FT.INFO") {
+        throw new Error("Unknown index name");
+      }
+      if (args[0] === "FT.SEARCH") {
+        return [
+          3,
+          "store_vector:docs.a:d2:text",
+          ["namespace", '["docs","a"]', "key", "d2", "distance", "0.25"],
+          "store_vector:docs.a:d2:title",
+          ["namespace", '["docs","a"]', "key", "d2", "distance", "0.5"],
+          "store_vector:docs.a:d1:text",
+          ["namespace", '["docs","a"]', "key", "d1", "distance", "0.75"],
+        ];
+      }
+      return "OK";
+    };
+    const vectorStore = new RedisStore({
+      connection,
+      index: { dims: 4, embeddings, fields: ["text", "title"] },
+    });
+    await vectorStore.put(["docs", "a"], "d1", { text: "tea", title: "Tea" });
+    await vectorStore.put(["docs", "a"], "d2", { text: "redis", title: "Redis" });
+
+    const results = await vectorStore.search(["docs", "a"], { query: "redis" });
+    assert.deepEqual(
+      results.map((item) => [item.key, item.score]),
+      [["d2", 0.75], ["d1", 0.25]]
+    );
+    assert.deepEqual(commands[1].slice(0, 8), [
+      "FT.CREATE",
+      "store_vector_index",
+      "ON",
+      "HASH",
+      "PREFIX",
+      "1",
+      "store_vector:",
+      "SCHEMA",
+    ]);
+    assert.strictEqual(
+      commands[2][2],
+      "@namespace_tag:{docs\\.a | docs\\.a\\.*}=>[KNN 20 @embedding $vector AS distance]"
+    );
+
+    // The index is only set up once
+    await vectorStore.search(["docs"], { query: "tea" });
+    assert.deepEqual(commands.map(([command]) => command), [
+      "FT.INFO",
+      "FT.CREATE",
+      "FT.SEARCH",
+      "FT.SEARCH",
+    ]);
+    await connection.quit();
+  });
+
+  await it("should validate the index config and embeddings", async () => {
+    assert.throws(
+      () => new RedisStore({ connection: redisClient, index: { dims: 0, embeddings } }),
+      CheckpointValidationError
+    );
+    const redisearchStore = new RedisStore({
+      connection: redisClient,
+      index: { dims: 4, embeddings, vectorSearch: "redisearch" },
+    });
+    await assert.rejects(
+      () => redisearchStore.search(["docs"], { query: "tea" }),
+      /requires the RediSearch module/
+    );
+    const wrongDims = new RedisStore({
+      connection: redisClient,
+      index: { dims: 3, embeddings },
+    });
+    await assert.rejects(
+      () => wrongDims.put(["docs"], "d1", { text: "tea" }),
+      /Expected embeddings with 3 dimensions. Got: 4/
+    );
+    embedded.splice(0);
+  });
+
+  await it("should share a connection and key prefix with a saver", async () => {
+    const prefixed = new RedisStore({ connection: redisClient, keyPrefix: "app" });
+    const saver = new RedisSaver({ connection: redisClient, keyPrefix: "app" });
+    await prefixed.put(["users", "u:1"], "profile", { name: "Ada" });
+
+    assert.deepEqual((await redisClient.keys("*")).sort(), [
+      "app:store:users.u%3A1:profile",
+      "app:store_index:users.u%3A1",
+      "app:store_namespaces",
+      "app:store_updated:users.u%3A1",
+    ]);
+    assert.deepEqual(await prefixed.listNamespaces(), [["users", "u:1"]]);
+    assert.strictEqual(await store.get(["users", "u:1"], "profile"), null);
+    assert.deepEqual((await saver.listThreads()).threads, []);
+  });
+});
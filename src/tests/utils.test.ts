@@ -4,6 +4,7 @@ import {
   type PendingWrite,
   type CheckpointPendingWrite,
 } from "@langchain/langgraph-checkpoint";
+import { uuid6 } from "@langchain/langgraph-checkpoint";
 import { JsonPlusSerializer } from "../../node_modules/@langchain/langgraph-checkpoint/dist/serde/jsonplus.js";
 
 import {
@@ -11,10 +12,27 @@ import {
   makeRedisCheckpointWritesKey,
   parseRedisCheckpointKey,
   parseRedisCheckpointWritesKey,
-  filterKeys,
+  makeRedisCheckpointIndexKey,
+  makeRedisCheckpointWritesIndexKey,
   dumpWrites,
   loadWrites,
   parseRedisCheckpointData,
+  encodeRedisBlob,
+  escapeRedisKeySegment,
+  unescapeRedisKeySegment,
+  makeRedisThreadKeyPatterns,
+  createRedisKeySchema,
+  createRedisStoreKeySchema,
+  encodeRedisVector,
+  decodeRedisVector,
+  compileRedisPattern,
+  matchesFilter,
+  getCheckpointIdTimestamp,
+  compressRedisBlob,
+  encodeRedisHashFields,
+  decodeRedisHashFields,
+  readLines,
+  REDIS_BLOB_ENCODING,
 } from "../utils.js";
 
 const serde = new JsonPlusSerializer();
@@ -33,6 +51,25 @@ await describe("Redis Checkpoint Utils", async () => {
     });
   });
 
+  await describe("escapeRedisKeySegment", async () => {
+    await it("should leave plain segments unchanged", async () => {
+      assert.equal(escapeRedisKeySegment("thread-1_a.b|c"), "thread-1_a.b|c");
+    });
+
+    await it("should escape separators, glob characters, hash tags and the escape character", async () => {
+      assert.equal(
+        escapeRedisKeySegment("a:b*c?d[e]f\\g%h{i}"),
+        "a%3Ab%2Ac%3Fd%5Be%5Df%5Cg%25h%7Bi%7D"
+      );
+    });
+
+    await it("should round-trip any string", async () => {
+      for (const segment of ["", "tenant:user:42", "parent:child|task", "%3A", "*?[]\\%%"]) {
+        assert.equal(unescapeRedisKeySegment(escapeRedisKeySegment(segment)), segment);
+      }
+    });
+  });
+
   await describe("makeRedisCheckpointWritesKey", async () => {
     await it("should create a correct Redis checkpoint writes key with all parameters", async () => {
       assert.equal(
@@ -66,6 +103,16 @@ await describe("Redis Checkpoint Utils", async () => {
       });
     });
 
+    await it("should round-trip segments containing separators", async () => {
+      const key = makeRedisCheckpointKey("tenant:user:42", "parent:child|task", "id1");
+      assert.equal(key, "checkpoint:tenant%3Auser%3A42:parent%3Achild|task:id1");
+      assert.deepEqual(parseRedisCheckpointKey(key), {
+        thread_id: "tenant:user:42",
+        checkpoint_ns: "parent:child|task",
+        checkpoint_id: "id1",
+      });
+    });
+
     await it("should throw an error for invalid key format", async () => {
       assert.throws(() => parseRedisCheckpointKey("invalid:key"), {
         message: "Expected checkpoint key to start with 'checkpoint'",
@@ -87,6 +134,17 @@ await describe("Redis Checkpoint Utils", async () => {
       });
     });
 
+    await it("should round-trip segments containing separators", async () => {
+      const key = makeRedisCheckpointWritesKey("a:b", "ns:1", "id1", "task:1", -1);
+      assert.deepEqual(parseRedisCheckpointWritesKey(key), {
+        thread_id: "a:b",
+        checkpoint_ns: "ns:1",
+        checkpoint_id: "id1",
+        task_id: "task:1",
+        idx: "-1",
+      });
+    });
+
     await it("should handle key without index", async () => {
       const result = parseRedisCheckpointWritesKey(
         "writes:thread1:ns1:id1:task1"
@@ -107,42 +165,200 @@ await describe("Redis Checkpoint Utils", async () => {
     });
   });
 
-  await describe("filterKeys", async () => {
-    const testKeys = [
-      "checkpoint:thread1:ns1:id3",
-      "checkpoint:thread1:ns1:id1",
-      "checkpoint:thread1:ns1:id2",
-    ];
-
-    await it("should filter and sort keys correctly", async () => {
-      const result = filterKeys(
-        testKeys,
-        { configurable: { checkpoint_id: "id3" } },
-        2
+  await describe("makeRedisCheckpointIndexKey", async () => {
+    await it("should create a correct Redis checkpoint index key", async () => {
+      assert.equal(
+        makeRedisCheckpointIndexKey("thread1", "ns1"),
+        "checkpoint_index:thread1:ns1"
       );
-      assert.deepEqual(result, [
-        "checkpoint:thread1:ns1:id1",
-        "checkpoint:thread1:ns1:id2",
-      ]);
     });
 
-    await it("should handle empty before parameter", async () => {
-      const result = filterKeys(testKeys, undefined, 2);
-      assert.deepEqual(result, [
-        "checkpoint:thread1:ns1:id1",
-        "checkpoint:thread1:ns1:id2",
+    await it("should handle empty namespace", async () => {
+      assert.equal(
+        makeRedisCheckpointIndexKey("thread1", ""),
+        "checkpoint_index:thread1:"
+      );
+    });
+  });
+
+  await describe("makeRedisCheckpointWritesIndexKey", async () => {
+    await it("should create a correct Redis writes index key", async () => {
+      assert.equal(
+        makeRedisCheckpointWritesIndexKey("thread1", "ns1", "id1"),
+        "writes_index:thread1:ns1:id1"
+      );
+    });
+  });
+
+  await describe("makeRedisThreadKeyPatterns", async () => {
+    await it("should match every key type of an escaped thread", async () => {
+      assert.deepEqual(makeRedisThreadKeyPatterns("a:b*"), [
+        "checkpoint:a%3Ab%2A:*",
+        "writes:a%3Ab%2A:*",
+        "checkpoint_index:a%3Ab%2A:*",
+        "writes_index:a%3Ab%2A:*",
       ]);
     });
+  });
+
+  await describe("createRedisKeySchema", async () => {
+    await it("should use the default layout without a prefix", async () => {
+      const schema = createRedisKeySchema();
+      assert.equal(
+        schema.checkpointKey("thread1", "ns1", "id1"),
+        "checkpoint:thread1:ns1:id1"
+      );
+      assert.equal(
+        schema.writesKey("thread1", "ns1", "id1", "task1", 1),
+        "writes:thread1:ns1:id1:task1:1"
+      );
+    });
 
-    await it("should handle no limit", async () => {
-      const result = filterKeys(testKeys, {
-        configurable: { checkpoint_id: "id4" },
+    await it("should prepend the key prefix to keys and patterns", async () => {
+      const schema = createRedisKeySchema("myapp:prod");
+      assert.equal(
+        schema.checkpointKey("thread1", "ns1", "id1"),
+        "myapp:prod:checkpoint:thread1:ns1:id1"
+      );
+      assert.equal(
+        schema.writesKey("thread1", "ns1", "id1", "task1", 1),
+        "myapp:prod:writes:thread1:ns1:id1:task1:1"
+      );
+      assert.equal(
+        schema.checkpointIndexKey("thread1", "ns1"),
+        "myapp:prod:checkpoint_index:thread1:ns1"
+      );
+      assert.equal(
+        schema.writesIndexKey("thread1", "ns1", "id1"),
+        "myapp:prod:writes_index:thread1:ns1:id1"
+      );
+      assert.ok(
+        schema
+          .threadKeyPatterns("thread1")
+          .every((pattern) => pattern.startsWith("myapp:prod:"))
+      );
+      assert.equal(schema.threadKey("thread1"), "myapp:prod:thread:thread1");
+      assert.equal(schema.threadLeaseKey("thread1"), "myapp:prod:thread_lease:thread1");
+      assert.equal(
+        schema.threadCreatedIndexKey(),
+        "myapp:prod:thread_created_index"
+      );
+      assert.equal(schema.checkpointKeyPattern(), "myapp:prod:checkpoint:*");
+      assert.equal(
+        schema.writesKeyPattern("thread1"),
+        "myapp:prod:writes:thread1:*"
+      );
+    });
+
+    await it("should parse prefixed keys", async () => {
+      const schema = createRedisKeySchema("myapp:prod");
+      assert.deepEqual(
+        schema.parseCheckpointKey("myapp:prod:checkpoint:thread1:ns1:id1"),
+        { thread_id: "thread1", checkpoint_ns: "ns1", checkpoint_id: "id1" }
+      );
+      assert.deepEqual(
+        schema.parseWritesKey("myapp:prod:writes:thread1:ns1:id1:task1:1"),
+        {
+          thread_id: "thread1",
+          checkpoint_ns: "ns1",
+          checkpoint_id: "id1",
+          task_id: "task1",
+          idx: "1",
+        }
+      );
+      assert.throws(
+        () => schema.parseCheckpointKey("checkpoint:thread1:ns1:id1"),
+        { message: "Expected key to start with prefix 'myapp:prod'" }
+      );
+    });
+
+    await it("should wrap thread segments in hash tags", async () => {
+      const schema = createRedisKeySchema("app", { hashTags: true });
+      const checkpointKey = schema.checkpointKey("a:b", "ns1", "id1");
+      assert.equal(checkpointKey, "app:checkpoint:{a%3Ab}:ns1:id1");
+      assert.equal(
+        schema.writesKey("a:b", "ns1", "id1", "task1", 0),
+        "app:writes:{a%3Ab}:ns1:id1:task1:0"
+      );
+      assert.equal(
+        schema.checkpointIndexKey("a:b", "ns1"),
+        "app:checkpoint_index:{a%3Ab}:ns1"
+      );
+      assert.equal(schema.threadKey("a:b"), "app:thread:{a%3Ab}");
+      assert.equal(schema.threadLeaseKey("a:b"), "app:thread_lease:{a%3Ab}");
+      assert.equal(schema.threadKeyPatterns("a:b")[0], "app:checkpoint:{a%3Ab}:*");
+      assert.equal(schema.writesKeyPattern("a:b"), "app:writes:{a%3Ab}:*");
+      assert.deepEqual(schema.parseCheckpointKey(checkpointKey), {
+        thread_id: "a:b",
+        checkpoint_ns: "ns1",
+        checkpoint_id: "id1",
       });
-      assert.deepEqual(result, [
-        "checkpoint:thread1:ns1:id1",
-        "checkpoint:thread1:ns1:id2",
-        "checkpoint:thread1:ns1:id3",
-      ]);
+      assert.throws(
+        () => schema.parseCheckpointKey("app:checkpoint:a:ns1:id1"),
+        { message: "Expected thread segment to be wrapped in a hash tag" }
+      );
+    });
+
+    await it("should keep braces in thread IDs out of the hash tag", async () => {
+      const schema = createRedisKeySchema(undefined, { hashTags: true });
+      const checkpointKey = schema.checkpointKey("}x", "", "1");
+      // An empty "{}" tag would hash the whole key instead
+      assert.equal(checkpointKey, "checkpoint:{%7Dx}::1");
+      assert.equal(schema.writesKey("}x", "", "1", "task1", 0), "writes:{%7Dx}::1:task1:0");
+      assert.equal(schema.parseCheckpointKey(checkpointKey).thread_id, "}x");
+      assert.equal(schema.threadKey("{a}"), "thread:{%7Ba%7D}");
+    });
+
+    await it("should reject prefixes containing glob characters", async () => {
+      assert.throws(() => createRedisKeySchema("myapp:*"), /Invalid key prefix/);
+    });
+  });
+
+  await describe("createRedisStoreKeySchema", async () => {
+    await it("should join namespace labels into one escaped segment", async () => {
+      const schema = createRedisStoreKeySchema("app");
+      assert.equal(schema.itemKey(["users", "u:1"], "profile"), "app:store:users.u%3A1:profile");
+      assert.equal(schema.namespaceKey(["users", "u:1"]), "app:store_index:users.u%3A1");
+      assert.equal(schema.namespaceUpdatedKey(["users", "u:1"]), "app:store_updated:users.u%3A1");
+      assert.equal(schema.namespacesKey(), "app:store_namespaces");
+      assert.equal(schema.vectorKey(["users"], "profile", "tags[*].0"), "app:store_vector:users:profile:tags%5B%2A%5D.0");
+      assert.ok(schema.vectorKey(["users"], "profile", "$").startsWith(schema.vectorKeyPrefix()));
+      assert.equal(schema.vectorIndexName(), "app:store_vector_index");
+    });
+
+    await it("should wrap namespaces in hash tags", async () => {
+      const schema = createRedisStoreKeySchema(undefined, { hashTags: true });
+      assert.equal(schema.itemKey(["users", "u1"], "profile"), "store:{users.u1}:profile");
+      assert.equal(schema.namespaceKey(["users", "u1"]), "store_index:{users.u1}");
+      assert.equal(schema.namespaceUpdatedKey(["users", "u1"]), "store_updated:{users.u1}");
+      assert.equal(schema.vectorKey(["users", "u1"], "profile", "$"), "store_vector:{users.u1}:profile:$");
+      assert.equal(schema.itemKey(["{users}"], "profile"), "store:{%7Busers%7D}:profile");
+      assert.throws(() => createRedisStoreKeySchema("app?"), /Invalid key prefix/);
+    });
+  });
+
+  await describe("encodeRedisVector", async () => {
+    await it("should encode little-endian FLOAT32 values", async () => {
+      const encoded = encodeRedisVector([1, -0.5]);
+      assert.deepEqual(encoded, Buffer.from([0, 0, 0x80, 0x3f, 0, 0, 0, 0xbf]));
+      assert.deepEqual(decodeRedisVector(encoded), [1, -0.5]);
+    });
+  });
+
+  await describe("compileRedisPattern", async () => {
+    await it("should match Redis glob patterns", async () => {
+      const matches = (pattern: string, text: string) => compileRedisPattern(pattern).test(text);
+      assert.ok(matches("user-*", "user-42"));
+      assert.ok(matches("user-?", "user-4"));
+      assert.ok(!matches("user-?", "user-42"));
+      assert.ok(matches("t[a-c]", "tb"));
+      assert.ok(!matches("t[^a-c]", "tb"));
+      assert.ok(matches("a.b", "a.b"));
+      assert.ok(!matches("a.b", "axb"));
+      assert.ok(matches("literal\\*", "literal*"));
+      assert.ok(!matches("literal\\*", "literal-1"));
+      assert.ok(matches("thread", "thread"));
+      assert.ok(!matches("thread", "thread-2"));
     });
   });
 
@@ -191,6 +407,187 @@ await describe("Redis Checkpoint Utils", async () => {
         ["task2", "channel2", { data: "value2" }],
       ]);
     });
+
+    await it("should deserialize binary writes", async () => {
+      const taskIdToData = {
+        "task1,0": {
+          channel: Buffer.from("channel1"),
+          type: Buffer.from("json"),
+          value: Buffer.from(JSON.stringify({ data: "value1" })),
+          encoding: Buffer.from(REDIS_BLOB_ENCODING),
+        },
+      };
+      const result = await loadWrites(serde, taskIdToData);
+      assert.deepEqual(result, [["task1", "channel1", { data: "value1" }]]);
+    });
+
+    await it("should decompress compressed writes", async () => {
+      const [value, codec] = await compressRedisBlob(
+        new TextEncoder().encode(JSON.stringify({ data: "value1".repeat(100) })),
+        { codec: "brotli", threshold: 0 }
+      );
+      const data = {
+        channel: Buffer.from("channel1"),
+        type: Buffer.from("json"),
+        value: encodeRedisBlob(value),
+        compression: Buffer.from(codec ?? ""),
+        encoding: Buffer.from(REDIS_BLOB_ENCODING),
+      };
+      assert.deepEqual(await loadWrites(serde, { "task1,0": data }), [
+        ["task1", "channel1", { data: "value1".repeat(100) }],
+      ]);
+      await assert.rejects(
+        () =>
+          loadWrites(serde, {
+            "task1,0": { ...data, compression: Buffer.from("zstd") },
+          }),
+        { message: "Unsupported compression codec: zstd" }
+      );
+    });
+  });
+
+  await describe("compressRedisBlob", async () => {
+    const metadata = { step: 1, text: "checkpoint ".repeat(200) };
+    const bytes = new TextEncoder().encode(JSON.stringify(metadata));
+
+    await it("should round-trip every codec", async () => {
+      for (const codec of ["gzip", "brotli", "deflate"] as const) {
+        const [compressed, usedCodec] = await compressRedisBlob(bytes, { codec });
+        assert.strictEqual(usedCodec, codec);
+        assert.ok(compressed.byteLength < bytes.byteLength);
+
+        const tuple = await parseRedisCheckpointData(
+          serde,
+          "checkpoint:thread1:ns1:id1",
+          {
+            checkpoint: Buffer.from(JSON.stringify({ id: "id1" })),
+            compression: "",
+            type: "json",
+            metadata_type: "json",
+            metadata: encodeRedisBlob(compressed),
+            metadata_compression: codec,
+            encoding: REDIS_BLOB_ENCODING,
+          }
+        );
+        assert.deepEqual(tuple.checkpoint, { id: "id1" });
+        assert.deepEqual(tuple.metadata, metadata);
+      }
+    });
+
+    await it("should store small blobs as is", async () => {
+      assert.deepEqual(await compressRedisBlob(bytes), [bytes, undefined]);
+      const small = bytes.subarray(0, 10);
+      assert.deepEqual(await compressRedisBlob(small, { codec: "gzip" }), [
+        small,
+        undefined,
+      ]);
+    });
+
+    await it("should store blobs that do not shrink as is", async () => {
+      const tiny = new Uint8Array([1, 2, 3]);
+      const [value, codec] = await compressRedisBlob(tiny, {
+        codec: "gzip",
+        threshold: 0,
+      });
+      assert.strictEqual(value, tiny);
+      assert.strictEqual(codec, undefined);
+    });
+  });
+
+  await describe("encodeRedisBlob", async () => {
+    await it("should wrap the bytes in a Buffer without copying", async () => {
+      const bytes = new Uint8Array([0, 1, 2, 255]);
+      const result = encodeRedisBlob(bytes);
+      assert.ok(Buffer.isBuffer(result));
+      assert.strictEqual(result.buffer, bytes.buffer);
+      assert.deepEqual([...result], [0, 1, 2, 255]);
+    });
+
+    await it("should respect the view offset", async () => {
+      const bytes = new Uint8Array([9, 9, 1, 2]).subarray(2);
+      assert.deepEqual([...encodeRedisBlob(bytes)], [1, 2]);
+    });
+  });
+
+  await describe("encodeRedisHashFields", async () => {
+    await it("should round-trip binary fields through base64", async () => {
+      const data = { value: Buffer.from([0, 255, 10, 13]), type: Buffer.from("json") };
+      const fields = encodeRedisHashFields(data);
+      assert.deepEqual(fields, { value: "AP8KDQ==", type: "anNvbg==" });
+      assert.deepEqual(decodeRedisHashFields(fields), data);
+    });
+  });
+
+  await describe("readLines", async () => {
+    await it("should split chunks into lines", async () => {
+      // "é" is split across two chunks
+      const bytes = Buffer.from("first\nsecond é\nthird");
+      const chunks = [bytes.subarray(0, 8), bytes.subarray(8, 14), bytes.subarray(14)];
+
+      const lines: string[] = [];
+      for await (const line of readLines(chunks)) {
+        lines.push(line);
+      }
+      assert.deepEqual(lines, ["first", "second é", "third"]);
+    });
+  });
+
+  await describe("matchesFilter", async () => {
+    const metadata = {
+      source: "loop",
+      step: 6,
+      parents: { "": "id1" },
+      writes: { agent: { messages: ["hi"] } },
+    };
+
+    await it("should match equal top-level values", async () => {
+      assert.ok(matchesFilter(metadata, { source: "loop", step: 6 }));
+      assert.ok(!matchesFilter(metadata, { source: "input" }));
+      assert.ok(!matchesFilter(metadata, { missing: "value" }));
+    });
+
+    await it("should match nested fields partially", async () => {
+      assert.ok(matchesFilter(metadata, { parents: { "": "id1" } }));
+      assert.ok(
+        matchesFilter(metadata, { writes: { agent: { messages: ["hi"] } } })
+      );
+      assert.ok(!matchesFilter(metadata, { writes: { agent: { messages: [] } } }));
+      assert.ok(!matchesFilter(metadata, { parents: { "": "id2" } }));
+    });
+
+    await it("should support comparison operators", async () => {
+      assert.ok(matchesFilter(metadata, { step: { $gt: 5 } }));
+      assert.ok(!matchesFilter(metadata, { step: { $gt: 6 } }));
+      assert.ok(matchesFilter(metadata, { step: { $gte: 6, $lte: 6 } }));
+      assert.ok(matchesFilter(metadata, { step: { $lt: 7 } }));
+      assert.ok(matchesFilter(metadata, { source: { $ne: "input" } }));
+      assert.ok(matchesFilter(metadata, { source: { $in: ["input", "loop"] } }));
+      assert.ok(!matchesFilter(metadata, { source: { $nin: ["loop"] } }));
+    });
+
+    await it("should reject unknown operators", async () => {
+      assert.throws(
+        () => matchesFilter(metadata, { step: { $regex: "6" } }),
+        { message: "Unsupported filter operator: $regex" }
+      );
+    });
+  });
+
+  await describe("getCheckpointIdTimestamp", async () => {
+    await it("should extract the creation time of a uuid6", async () => {
+      const before = Date.now();
+      const timestamp = getCheckpointIdTimestamp(uuid6(-1));
+      assert.ok(timestamp !== undefined);
+      assert.ok(timestamp >= before && timestamp <= Date.now());
+    });
+
+    await it("should return undefined for other IDs", async () => {
+      assert.equal(getCheckpointIdTimestamp("id1"), undefined);
+      assert.equal(
+        getCheckpointIdTimestamp("1f1cb56e-1dd2-4ab0-bfff-ca49cfa5d079"),
+        undefined
+      );
+    });
   });
 
   await describe("parseRedisCheckpointData", async () => {
@@ -248,6 +645,24 @@ await describe("Redis Checkpoint Utils", async () => {
 
       assert.equal(result.parentConfig, undefined);
     });
+
+    await it("should parse binary checkpoint data", async () => {
+      const key = "checkpoint:thread1:ns1:id1";
+      const data = {
+        type: Buffer.from("json"),
+        checkpoint: Buffer.from(JSON.stringify({ state: "checkpointState" })),
+        metadata_type: Buffer.from("json"),
+        metadata: Buffer.from(JSON.stringify({ meta: "data" })),
+        parent_checkpoint_id: Buffer.from(""),
+        encoding: Buffer.from(REDIS_BLOB_ENCODING),
+      };
+
+      const result = await parseRedisCheckpointData(serde, key, data);
+
+      assert.deepEqual(result.checkpoint, { state: "checkpointState" });
+      assert.deepEqual(result.metadata, { meta: "data" });
+      assert.equal(result.parentConfig, undefined);
+    });
   });
 });
 
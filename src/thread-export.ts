@@ -0,0 +1,461 @@
+import type { ChainableCommander } from "ioredis";
+
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+import {
+  decodeRedisHashFields,
+  encodeRedisHashFields,
+  execTransaction,
+  isPlainObject,
+  readLines,
+  wrapRedisError,
+} from "./utils.js";
+import {
+  afterWrite,
+  getReadConnection,
+  withSaverRetry,
+  type RedisSaverContext,
+} from "./saver-context.js";
+
+// Version of the NDJSON format written by exportThread()
+const THREAD_EXPORT_VERSION = 1;
+
+// Lines of a thread export. The first line describes the thread, followed by
+// each checkpoint and its pending writes. Hash fields are base64 encoded and
+// `ttl_ms` holds the remaining TTL of the key at export time.
+type ThreadExportRecord =
+  | {
+      type: "thread";
+      version: number;
+      thread_id: string;
+      created_at?: number;
+      updated_at?: number;
+      metadata?: Record<string, unknown>;
+      ttl_ms?: number;
+    }
+  | {
+      type: "checkpoint";
+      checkpoint_ns: string;
+      checkpoint_id: string;
+      fields: Record<string, string>;
+      ttl_ms?: number;
+    }
+  | {
+      type: "write";
+      checkpoint_ns: string;
+      checkpoint_id: string;
+      task_id: string;
+      idx: number;
+      fields: Record<string, string>;
+      ttl_ms?: number;
+    };
+
+function toExportLine(record: ThreadExportRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Describes what is wrong with a parsed export line, or returns undefined if
+// it is a well-formed record
+function findExportRecordProblem(record: unknown): string | undefined {
+  if (!isPlainObject(record)) {
+    return "expected a JSON object";
+  }
+  const { type, ttl_ms } = record;
+  if (ttl_ms !== undefined && !(Number.isInteger(ttl_ms) && (ttl_ms as number) > 0)) {
+    return `ttl_ms must be a positive integer. Got: ${JSON.stringify(ttl_ms)}`;
+  }
+  if (type === "thread") {
+    const { thread_id, created_at, updated_at, metadata } = record;
+    if (typeof thread_id !== "string" || !thread_id) {
+      return `thread_id must be a non-empty string. Got: ${JSON.stringify(thread_id)}`;
+    }
+    for (const [name, value] of [["created_at", created_at], ["updated_at", updated_at]]) {
+      if (value !== undefined && !Number.isFinite(value)) {
+        return `${name} must be a number. Got: ${JSON.stringify(value)}`;
+      }
+    }
+    if (metadata !== undefined && !isPlainObject(metadata)) {
+      return `metadata must be an object. Got: ${JSON.stringify(metadata)}`;
+    }
+    return undefined;
+  }
+  if (type !== "checkpoint" && type !== "write") {
+    return `unknown record type ${JSON.stringify(type)}`;
+  }
+
+  const { checkpoint_ns, checkpoint_id, fields } = record;
+  if (typeof checkpoint_ns !== "string") {
+    return `checkpoint_ns must be a string. Got: ${JSON.stringify(checkpoint_ns)}`;
+  }
+  if (typeof checkpoint_id !== "string" || !checkpoint_id) {
+    return `checkpoint_id must be a non-empty string. Got: ${JSON.stringify(checkpoint_id)}`;
+  }
+  if (type === "write") {
+    const { task_id, idx } = record;
+    if (typeof task_id !== "string" || !task_id) {
+      return `task_id must be a non-empty string. Got: ${JSON.stringify(task_id)}`;
+    }
+    if (!Number.isInteger(idx)) {
+      return `idx must be an integer. Got: ${JSON.stringify(idx)}`;
+    }
+  }
+  if (!isPlainObject(fields) || Object.keys(fields).length === 0) {
+    return "fields must be a non-empty object";
+  }
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== "string" || !BASE64_PATTERN.test(value)) {
+      return `field ${field} must be a base64 string`;
+    }
+  }
+  return undefined;
+}
+
+// PTTL replies -1 for keys without expiry
+function toTtlMs(pttl: number): { ttl_ms?: number } {
+  return pttl > 0 ? { ttl_ms: pttl } : {};
+}
+
+export type ImportThreadOptions = {
+  threadId?: string; // Imports into another thread (default: the exported thread)
+  onConflict?: "skip" | "overwrite"; // Keeps or replaces existing records (default "skip")
+};
+
+export type ImportThreadResult = {
+  thread_id: string;
+  checkpoints: number; // Checkpoints written
+  writes: number; // Pending writes written
+  skipped: number; // Records that already existed
+};
+
+export async function* exportThread(
+  context: RedisSaverContext,
+  threadId: string
+): AsyncGenerator<string> {
+  if (!threadId) {
+    throw new CheckpointValidationError(
+      "exportThread() requires a valid threadId. Got: undefined",
+      { operation: "exportThread" }
+    );
+  }
+
+  const connection = getReadConnection(context, threadId);
+  try {
+    const namespacesKey = context.keySchema.namespacesKey(threadId);
+    const [registry, namespaces, pttl] = await withSaverRetry(context, () =>
+      Promise.all([
+        connection.hgetall(context.keySchema.threadKey(threadId)),
+        connection.smembers(namespacesKey),
+        connection.pttl(namespacesKey),
+      ])
+    );
+    if (namespaces.length === 0) {
+      throw new CheckpointValidationError(
+        `exportThread() could not find thread: ${threadId}`,
+        { operation: "exportThread", thread_id: threadId }
+      );
+    }
+
+    yield toExportLine({
+      type: "thread",
+      version: THREAD_EXPORT_VERSION,
+      thread_id: threadId,
+      ...(registry.created_at && {
+        created_at: Number(registry.created_at),
+        updated_at: Number(registry.updated_at),
+      }),
+      ...(registry.metadata && { metadata: JSON.parse(registry.metadata) }),
+      ...toTtlMs(pttl),
+    });
+
+    for (const checkpointNs of namespaces.sort()) {
+      const ids = await withSaverRetry(context, () =>
+        connection.zrange(
+          context.keySchema.checkpointIndexKey(threadId, checkpointNs),
+          0,
+          -1
+        )
+      );
+
+      for (const checkpointId of ids) {
+        const key = context.keySchema.checkpointKey(threadId, checkpointNs, checkpointId);
+        const [data, checkpointPttl, writeKeys] = await withSaverRetry(context, () =>
+          Promise.all([
+            connection.hgetallBuffer(key),
+            connection.pttl(key),
+            connection.smembers(
+              context.keySchema.writesIndexKey(threadId, checkpointNs, checkpointId)
+            ),
+          ])
+        );
+        // Pruned or expired since the index was read
+        if (Object.keys(data).length === 0) {
+          continue;
+        }
+        yield toExportLine({
+          type: "checkpoint",
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId,
+          fields: encodeRedisHashFields(data),
+          ...toTtlMs(checkpointPttl),
+        });
+
+        for (const writeKey of writeKeys.sort()) {
+          const [writeData, writePttl] = await withSaverRetry(context, () =>
+            Promise.all([
+              connection.hgetallBuffer(writeKey),
+              connection.pttl(writeKey),
+            ])
+          );
+          if (Object.keys(writeData).length === 0) {
+            continue;
+          }
+          const { task_id, idx } = context.keySchema.parseWritesKey(writeKey);
+          yield toExportLine({
+            type: "write",
+            checkpoint_ns: checkpointNs,
+            checkpoint_id: checkpointId,
+            task_id,
+            idx: Number(idx),
+            fields: encodeRedisHashFields(writeData),
+            ...toTtlMs(writePttl),
+          });
+        }
+      }
+    }
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to export thread",
+      `Thread: ${threadId}`,
+      { operation: "exportThread", thread_id: threadId }
+    );
+  }
+}
+
+export async function importThread(
+  context: RedisSaverContext,
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  { threadId, onConflict = "skip" }: ImportThreadOptions
+): Promise<ImportThreadResult> {
+  if (onConflict !== "skip" && onConflict !== "overwrite") {
+    throw new CheckpointValidationError(
+      `importThread() requires onConflict to be "skip" or "overwrite". Got: ${onConflict}`,
+      { operation: "importThread" }
+    );
+  }
+
+  let header: Extract<ThreadExportRecord, { type: "thread" }> | undefined;
+  let targetThreadId = threadId ?? "";
+  const result: ImportThreadResult = {
+    thread_id: targetThreadId,
+    checkpoints: 0,
+    writes: 0,
+    skipped: 0,
+  };
+  const namespaces = new Set<string>();
+
+  try {
+    // Read and validate the whole export first, so a malformed record
+    // leaves nothing half imported
+    const records: Exclude<ThreadExportRecord, { type: "thread" }>[] = [];
+    let lineNumber = 0;
+    let recordNumber = 0;
+    for await (const line of readLines(source)) {
+      lineNumber += 1;
+      if (!line.trim()) {
+        continue;
+      }
+      recordNumber += 1;
+
+      let record: ThreadExportRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new CheckpointSerializationError(
+          `Failed to parse line ${lineNumber} of thread export: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error, operation: "importThread", thread_id: threadId }
+        );
+      }
+
+      if (
+        !header &&
+        (record?.type !== "thread" || record.version !== THREAD_EXPORT_VERSION)
+      ) {
+        throw new CheckpointValidationError(
+          `importThread() requires a thread export in format version ${THREAD_EXPORT_VERSION}. Got: ${line.slice(0, 100)}`,
+          { operation: "importThread", thread_id: threadId }
+        );
+      }
+      const problem =
+        header && record?.type === "thread"
+          ? "expected a single thread record"
+          : findExportRecordProblem(record);
+      if (problem) {
+        throw new CheckpointValidationError(
+          `importThread() found an invalid record ${recordNumber} on line ${lineNumber}: ${problem}`,
+          { operation: "importThread", thread_id: threadId ?? header?.thread_id }
+        );
+      }
+
+      if (record.type === "thread") {
+        header = record;
+      } else {
+        records.push(record);
+      }
+    }
+
+    if (!header) {
+      throw new CheckpointValidationError(
+        `importThread() requires a thread export in format version ${THREAD_EXPORT_VERSION}. Got: empty input`,
+        { operation: "importThread", thread_id: threadId }
+      );
+    }
+    targetThreadId = threadId ?? header.thread_id;
+    result.thread_id = targetThreadId;
+
+    for (const record of records) {
+      if (record.type === "checkpoint") {
+        const { checkpoint_ns, checkpoint_id } = record;
+        const indexKey = context.keySchema.checkpointIndexKey(targetThreadId, checkpoint_ns);
+        const namespacesKey = context.keySchema.namespacesKey(targetThreadId);
+        const imported = await importRecord(context, 
+          context.keySchema.checkpointKey(targetThreadId, checkpoint_ns, checkpoint_id),
+          record,
+          onConflict,
+          (transaction) =>
+            transaction.zadd(indexKey, 0, checkpoint_id).sadd(namespacesKey, checkpoint_ns)
+        );
+        namespaces.add(checkpoint_ns);
+        result[imported ? "checkpoints" : "skipped"] += 1;
+      } else {
+        const { checkpoint_ns, checkpoint_id, task_id, idx } = record;
+        const key = context.keySchema.writesKey(
+          targetThreadId,
+          checkpoint_ns,
+          checkpoint_id,
+          task_id,
+          idx
+        );
+        const writesIndexKey = context.keySchema.writesIndexKey(
+          targetThreadId,
+          checkpoint_ns,
+          checkpoint_id
+        );
+        const imported = await importRecord(context, 
+          key,
+          record,
+          onConflict,
+          (transaction) => {
+            transaction.sadd(writesIndexKey, key);
+            if (record.ttl_ms) {
+              transaction.pexpire(writesIndexKey, record.ttl_ms);
+            }
+          }
+        );
+        result[imported ? "writes" : "skipped"] += 1;
+      }
+    }
+    await importThreadRegistry(context, targetThreadId, header, namespaces, onConflict);
+
+    return result;
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to import thread",
+      `Thread: ${targetThreadId}`,
+      { operation: "importThread", thread_id: targetThreadId }
+    );
+  }
+}
+
+/**
+ * Writes one exported hash together with its index entries. Returns false
+ * if the key exists and conflicts are skipped.
+ */
+async function importRecord(
+  context: RedisSaverContext,
+  key: string,
+  { fields, ttl_ms }: { fields: Record<string, string>; ttl_ms?: number },
+  onConflict: "skip" | "overwrite",
+  addToIndexes: (transaction: ChainableCommander) => void
+): Promise<boolean> {
+  return withSaverRetry(context, async () => {
+    if (onConflict === "skip" && (await context.connection.exists(key))) {
+      return false;
+    }
+
+    // Replace the whole hash, so no field of the old record survives
+    const transaction = context.connection
+      .multi()
+      .del(key)
+      .hset(key, decodeRedisHashFields(fields));
+    addToIndexes(transaction);
+    if (ttl_ms) {
+      transaction.pexpire(key, ttl_ms);
+    }
+    await execTransaction(transaction);
+    return true;
+  });
+}
+
+async function importThreadRegistry(
+  context: RedisSaverContext,
+  threadId: string,
+  { created_at, updated_at, metadata, ttl_ms }: Extract<ThreadExportRecord, { type: "thread" }>,
+  namespaces: Set<string>,
+  onConflict: "skip" | "overwrite"
+): Promise<void> {
+  const now = Date.now();
+  const registry: Record<string, string | number> = {
+    created_at: created_at ?? now,
+    updated_at: updated_at ?? now,
+    ...(metadata !== undefined && { metadata: JSON.stringify(metadata) }),
+  };
+  const threadKey = context.keySchema.threadKey(threadId);
+  const indexes: [string, number][] = [
+    [context.keySchema.threadIndexKey(), Number(registry.updated_at)],
+    [context.keySchema.threadCreatedIndexKey(), Number(registry.created_at)],
+  ];
+
+  await withSaverRetry(context, async () => {
+    const transaction = context.connection.multi();
+    for (const [field, value] of Object.entries(registry)) {
+      if (onConflict === "overwrite") {
+        transaction.hset(threadKey, field, value);
+      } else {
+        transaction.hsetnx(threadKey, field, value);
+      }
+    }
+    if (ttl_ms) {
+      transaction
+        .pexpire(threadKey, ttl_ms)
+        .pexpire(context.keySchema.namespacesKey(threadId), ttl_ms);
+      for (const checkpointNs of namespaces) {
+        transaction.pexpire(
+          context.keySchema.checkpointIndexKey(threadId, checkpointNs),
+          ttl_ms
+        );
+      }
+    }
+
+    const zaddArgs = (score: number) =>
+      onConflict === "overwrite" ? [score, threadId] : ["NX", score, threadId];
+    // The thread indexes live in another slot in cluster mode
+    if (!context.isCluster) {
+      for (const [indexKey, score] of indexes) {
+        transaction.zadd(indexKey, ...zaddArgs(score));
+      }
+    }
+    await execTransaction(transaction);
+    if (context.isCluster) {
+      for (const [indexKey, score] of indexes) {
+        await context.connection.zadd(indexKey, ...zaddArgs(score));
+      }
+    }
+    await afterWrite(context, threadId);
+  });
+}
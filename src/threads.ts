@@ -0,0 +1,725 @@
+import { Buffer } from "node:buffer";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+import {
+  CheckpointSerializationError,
+  CheckpointValidationError,
+} from "./errors.js";
+import { execTransaction, readRedisBlob, wrapRedisError } from "./utils.js";
+import {
+  afterWrite,
+  getReadConnection,
+  getThreadKeys,
+  LIST_BATCH_SIZE,
+  SCAN_BATCH_SIZE,
+  withSaverRetry,
+  type RedisSaverContext,
+} from "./saver-context.js";
+
+// Removes member ARGV[1] from the sorted set KEYS[1] only while its score is
+// still ARGV[2], so an entry updated since it was read is kept
+export const REMOVE_IF_SCORE_SCRIPT = `
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) == ARGV[2] then
+  return redis.call('ZREM', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+// Copies a checkpoint and its pending writes to another thread. KEYS holds the
+// source and target checkpoint keys, the target checkpoint index, namespaces
+// and writes index keys, then (source, target) pairs of write keys. ARGV holds
+// the checkpoint ID, its namespace and the default TTL ('' for none). Returns
+// nil if the source is gone, else the TTL the checkpoint was saved with ('' for
+// none) and its parent ID.
+const COPY_CHECKPOINT_SCRIPT = `
+local data = redis.call('HGETALL', KEYS[1])
+if #data == 0 then
+  return false
+end
+redis.call('HSET', KEYS[2], unpack(data))
+redis.call('ZADD', KEYS[3], 0, ARGV[1])
+redis.call('SADD', KEYS[4], ARGV[2])
+local copied = {KEYS[2]}
+for i = 6, #KEYS, 2 do
+  local write = redis.call('HGETALL', KEYS[i])
+  if #write > 0 then
+    redis.call('HSET', KEYS[i + 1], unpack(write))
+    redis.call('SADD', KEYS[5], KEYS[i + 1])
+    copied[#copied + 1] = KEYS[i + 1]
+  end
+end
+local ttl = tonumber(redis.call('HGET', KEYS[1], 'ttl') or ARGV[3])
+if ttl and ttl > 0 then
+  if #copied > 1 then
+    copied[#copied + 1] = KEYS[5]
+  end
+  for _, key in ipairs(copied) do
+    redis.call('EXPIRE', key, ttl)
+  end
+end
+return {ttl or '', redis.call('HGET', KEYS[1], 'parent_checkpoint_id') or ''}
+`;
+
+// listThreads() cursors encode the index score and ID of the last thread
+function encodeThreadCursor(score: number, threadId: string): string {
+  return Buffer.from(JSON.stringify([score, threadId])).toString("base64url");
+}
+
+function decodeThreadCursor(cursor: string): { score: number; threadId: string } {
+  try {
+    const [score, threadId] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString()
+    );
+    if (typeof score === "number" && typeof threadId === "string") {
+      return { score, threadId };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new CheckpointValidationError(
+    `listThreads() requires a cursor returned by a previous call. Got: ${cursor}`,
+    { operation: "listThreads" }
+  );
+}
+
+export type ThreadInfo = {
+  thread_id: string;
+  created_at: number; // Time of the first checkpoint in milliseconds
+  updated_at: number; // Time of the latest checkpoint in milliseconds
+  checkpoint_count: number; // Checkpoints stored across all namespaces
+  metadata?: Record<string, unknown>; // Set with config.configurable.thread_metadata
+};
+
+export type ListThreadsOptions = {
+  cursor?: string; // nextCursor of the previous page
+  limit?: number; // Threads per page (default 100)
+  orderBy?: "updated_at" | "created_at"; // Newest first (default "updated_at")
+  // Only threads last updated before this time in milliseconds. Pages are
+  // always full while more threads match. Ordered by "created_at", the
+  // threads updated since are skipped, which may read far into the index.
+  updatedBefore?: number;
+};
+
+export type ThreadPage = {
+  threads: ThreadInfo[];
+  nextCursor?: string; // Set while more threads remain
+};
+
+export type CopyThreadOptions = {
+  // Last checkpoint to copy, along with its ancestors. Defaults to the
+  // checkpoint_id of the source config, or every checkpoint.
+  upToCheckpointId?: string;
+};
+
+export async function deleteThread(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<void> {
+  try {
+    await withSaverRetry(context, async () => {
+      // Collect the checkpoint, writes and index keys of every namespace
+      // from the thread's indexes, so no keyspace scan is needed
+      const allKeys = [...new Set(await getThreadKeys(context, threadId))];
+
+      // Delete all keys in batches and remove the thread from the thread indexes
+      for (let i = 0; i < allKeys.length; i += SCAN_BATCH_SIZE) {
+        await context.connection.del(...allKeys.slice(i, i + SCAN_BATCH_SIZE));
+      }
+      await context.connection.zrem(context.keySchema.threadIndexKey(), threadId);
+      await context.connection.zrem(context.keySchema.threadCreatedIndexKey(), threadId);
+      await afterWrite(context, threadId);
+    });
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to delete thread",
+      `Thread: ${threadId}`,
+      { operation: "deleteThread", thread_id: threadId }
+    );
+  }
+}
+
+export async function listThreads(
+  context: RedisSaverContext,
+  {
+    cursor,
+    limit = 100,
+    orderBy = "updated_at",
+    updatedBefore,
+  }: ListThreadsOptions
+): Promise<ThreadPage> {
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit <= 0) {
+    throw new CheckpointValidationError(
+      `listThreads() requires limit to be a positive integer. Got: ${limit}`,
+      { operation: "listThreads" }
+    );
+  }
+  if (orderBy !== "updated_at" && orderBy !== "created_at") {
+    throw new CheckpointValidationError(
+      `listThreads() requires orderBy to be "updated_at" or "created_at". Got: ${orderBy}`,
+      { operation: "listThreads" }
+    );
+  }
+  if (updatedBefore !== undefined && typeof updatedBefore !== 'number') {
+    throw new CheckpointValidationError(
+      `listThreads() requires updatedBefore to be a timestamp in milliseconds. Got: ${updatedBefore}`,
+      { operation: "listThreads" }
+    );
+  }
+
+  const after = cursor === undefined ? undefined : decodeThreadCursor(cursor);
+  const indexKey =
+    orderBy === "updated_at"
+      ? context.keySchema.threadIndexKey()
+      : context.keySchema.threadCreatedIndexKey();
+  // The cursor is inclusive, since several threads may share its score
+  const max = after
+    ? after.score.toString()
+    : orderBy === "updated_at" && updatedBefore !== undefined
+      ? `(${updatedBefore}`
+      : "+inf";
+  const batchSize = Math.min(LIST_BATCH_SIZE, limit + 1);
+
+  const page: [ThreadInfo, number][] = [];
+  // Index entries of expired threads are removed once the page is
+  // complete, so the offsets of the batches read before stay valid
+  const expired: string[] = [];
+  const done = async (result: ThreadPage) => {
+    try {
+      await Promise.all(
+        expired.map((threadId) =>
+          withSaverRetry(context, () => removeExpiredThread(context, threadId))
+        )
+      );
+    } catch {
+      // Cleaning up is best effort, the next call or gc() tries again
+    }
+    return result;
+  };
+  try {
+    for (let offset = 0; ; offset += batchSize) {
+      const entries = await withSaverRetry(context, () =>
+        context.readConnection.zrevrangebyscore(
+          indexKey,
+          max,
+          "-inf",
+          "WITHSCORES",
+          "LIMIT",
+          offset,
+          batchSize
+        )
+      );
+
+      let candidates: [string, number][] = [];
+      for (let i = 0; i < entries.length; i += 2) {
+        const threadId = entries[i];
+        const score = Number(entries[i + 1]);
+        // Threads with equal scores are ordered by descending ID
+        if (after && score === after.score && threadId >= after.threadId) {
+          continue;
+        }
+        candidates.push([threadId, score]);
+      }
+
+      // Ordered by creation time, threads updated too recently are skipped
+      // by their score in the update index, so only matches are loaded
+      if (orderBy === "created_at" && updatedBefore !== undefined && candidates.length > 0) {
+        const updatedAt = await withSaverRetry(context, () =>
+          context.readConnection.zmscore(
+            context.keySchema.threadIndexKey(),
+            ...candidates.map(([threadId]) => threadId)
+          )
+        );
+        candidates = candidates.filter(
+          (_, i) => updatedAt[i] !== null && Number(updatedAt[i]) < updatedBefore
+        );
+      }
+
+      const threads = await Promise.all(
+        candidates.map(([threadId]) => loadThread(context, threadId))
+      );
+      for (const [i, thread] of threads.entries()) {
+        // Registry entries expire with their thread, while index entries
+        // remain until deleteThread() or a cleanup
+        if (!thread) {
+          expired.push(candidates[i][0]);
+          continue;
+        }
+        if (updatedBefore !== undefined && thread.updated_at >= updatedBefore) {
+          continue;
+        }
+        if (page.length === limit) {
+          const [last, score] = page[page.length - 1];
+          return await done({
+            threads: page.map(([info]) => info),
+            nextCursor: encodeThreadCursor(score, last.thread_id),
+          });
+        }
+        page.push([thread, candidates[i][1]]);
+      }
+
+      if (entries.length < batchSize * 2) {
+        return await done({ threads: page.map(([info]) => info) });
+      }
+    }
+  } catch (error) {
+    throw wrapRedisError(error, "Failed to list threads from Redis", "", {
+      operation: "listThreads",
+    });
+  }
+}
+
+export async function getThread(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<ThreadInfo | undefined> {
+  if (!threadId) {
+    throw new CheckpointValidationError(
+      "getThread() requires a valid threadId. Got: undefined",
+      { operation: "getThread" }
+    );
+  }
+
+  try {
+    return await loadThread(context, threadId);
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to get thread from Redis",
+      `Thread: ${threadId}`,
+      { operation: "getThread", thread_id: threadId }
+    );
+  }
+}
+
+export async function copyThread(
+  context: RedisSaverContext,
+  sourceConfig: RunnableConfig,
+  targetThreadId: string,
+  {
+    upToCheckpointId = sourceConfig?.configurable?.checkpoint_id,
+  }: CopyThreadOptions
+): Promise<RunnableConfig> {
+  const { thread_id, checkpoint_ns } = sourceConfig?.configurable ?? {};
+  if (!thread_id) {
+    throw new CheckpointValidationError(
+      "copyThread() requires sourceConfig.configurable.thread_id to be defined. Got: undefined",
+      { operation: "copyThread" }
+    );
+  }
+  if (!targetThreadId || targetThreadId === thread_id) {
+    throw new CheckpointValidationError(
+      `copyThread() requires a targetThreadId that differs from the source thread. Got: ${targetThreadId}`,
+      { operation: "copyThread", thread_id }
+    );
+  }
+
+  try {
+    const [namespaces, targetExists] = await withSaverRetry(context, () =>
+      Promise.all([
+        checkpoint_ns !== undefined
+          ? [checkpoint_ns as string]
+          : context.connection.smembers(context.keySchema.namespacesKey(thread_id)),
+        context.connection.exists(context.keySchema.namespacesKey(targetThreadId)),
+      ])
+    );
+    if (targetExists) {
+      throw new CheckpointValidationError(
+        `copyThread() requires a new target thread. Thread: ${targetThreadId} already has checkpoints.`,
+        { operation: "copyThread", thread_id: targetThreadId }
+      );
+    }
+
+    // With upToCheckpointId, its namespace is copied along its parent
+    // chain, leaving out other branches. Other namespaces, e.g. those of
+    // subgraphs, are copied where their checkpoints ran under a copied
+    // checkpoint, as recorded in `metadata.parents`.
+    const sourceIds = new Map<string, string[]>();
+    let upToNs: string | undefined;
+    if (upToCheckpointId) {
+      const scores = await withSaverRetry(context, () =>
+        Promise.all(
+          namespaces.map((ns) =>
+            context.connection.zscore(
+              context.keySchema.checkpointIndexKey(thread_id, ns),
+              upToCheckpointId
+            )
+          )
+        )
+      );
+      upToNs = namespaces.find((_, i) => scores[i] !== null);
+    } else {
+      await withSaverRetry(context, () =>
+        Promise.all(
+          namespaces.map(async (ns) => {
+            sourceIds.set(
+              ns,
+              await context.connection.zrange(
+                context.keySchema.checkpointIndexKey(thread_id, ns),
+                0,
+                -1
+              )
+            );
+          })
+        )
+      );
+    }
+    if (
+      upToCheckpointId
+        ? upToNs === undefined
+        : [...sourceIds.values()].every((ids) => ids.length === 0)
+    ) {
+      throw new CheckpointValidationError(
+        `copyThread() could not find checkpoint ${upToCheckpointId ?? "to copy"} in thread: ${thread_id}`,
+        { operation: "copyThread", thread_id, checkpoint_id: upToCheckpointId }
+      );
+    }
+
+    // The index keys expire with the checkpoint that expires last, or never
+    // if one of them does not expire
+    let threadTtl: number | undefined = 0;
+    const copied = new Map<string, Set<string>>();
+    const copy = async (ns: string, id: string) => {
+      const result = await copyCheckpoint(context, thread_id, targetThreadId, ns, id);
+      if (!result) {
+        return undefined;
+      }
+      copied.set(ns, (copied.get(ns) ?? new Set()).add(id));
+      threadTtl =
+        threadTtl === undefined || result.ttl === undefined
+          ? undefined
+          : Math.max(threadTtl, result.ttl);
+      return result;
+    };
+
+    if (upToNs === undefined) {
+      for (const [ns, ids] of sourceIds) {
+        for (const id of ids) {
+          await copy(ns, id);
+        }
+      }
+    } else {
+      const pending = [upToCheckpointId as string];
+      while (pending.length > 0) {
+        const result = await copy(upToNs, pending.shift() as string);
+        if (result?.parentId && !copied.get(upToNs)?.has(result.parentId)) {
+          pending.push(result.parentId);
+        }
+      }
+
+      // Parents live in shallower namespaces, so those are copied first
+      const depth = (ns: string) => (ns === "" ? 0 : ns.split("|").length);
+      const others = namespaces
+        .filter((ns) => depth(ns) > depth(upToNs as string))
+        .sort((a, b) => depth(a) - depth(b));
+      for (const ns of others) {
+        const ids = await withSaverRetry(context, () =>
+          context.connection.zrange(context.keySchema.checkpointIndexKey(thread_id, ns), 0, -1)
+        );
+        for (const id of ids) {
+          const parents = await readCheckpointParents(context, thread_id, ns, id);
+          if (
+            Object.entries(parents).some(([parentNs, parentId]) =>
+              copied.get(parentNs)?.has(parentId)
+            )
+          ) {
+            await copy(ns, id);
+          }
+        }
+      }
+    }
+    const copies = [...copied].map(([ns, ids]): [string, string[]] => [ns, [...ids].sort()]);
+
+    // The copy keeps the creation time and metadata of the source thread
+    await withSaverRetry(context, async () => {
+      const now = Date.now();
+      const [sourceCreatedAt, metadata] = await context.connection.hmget(
+        context.keySchema.threadKey(thread_id),
+        "created_at",
+        "metadata"
+      );
+      const createdAt = Number(sourceCreatedAt) || now;
+      const threadKey = context.keySchema.threadKey(targetThreadId);
+      const namespacesKey = context.keySchema.namespacesKey(targetThreadId);
+      const transaction = context.connection.multi().hset(threadKey, {
+        created_at: createdAt,
+        updated_at: now,
+        ...(metadata && { metadata }),
+      });
+      if (!context.isCluster) {
+        transaction
+          .zadd(context.keySchema.threadIndexKey(), now, targetThreadId)
+          .zadd(context.keySchema.threadCreatedIndexKey(), createdAt, targetThreadId);
+      }
+      if (threadTtl) {
+        transaction.expire(threadKey, threadTtl).expire(namespacesKey, threadTtl);
+        for (const [ns] of copies) {
+          transaction.expire(
+            context.keySchema.checkpointIndexKey(targetThreadId, ns),
+            threadTtl
+          );
+        }
+      }
+      await execTransaction(transaction);
+      if (context.isCluster) {
+        await context.connection.zadd(context.keySchema.threadIndexKey(), now, targetThreadId);
+        await context.connection.zadd(context.keySchema.threadCreatedIndexKey(), createdAt, targetThreadId);
+      }
+      await afterWrite(context, targetThreadId);
+    });
+
+    const targetNs = checkpoint_ns ?? "";
+    const [, targetIds = []] = copies.find(([ns]) => ns === targetNs) ?? [];
+    return {
+      configurable: {
+        thread_id: targetThreadId,
+        checkpoint_ns: targetNs,
+        ...(targetIds.length > 0 && {
+          checkpoint_id: targetIds[targetIds.length - 1],
+        }),
+      },
+    };
+  } catch (error) {
+    throw wrapRedisError(
+      error,
+      "Failed to copy thread",
+      `Thread: ${thread_id}, Target: ${targetThreadId}`,
+      { operation: "copyThread", thread_id }
+    );
+  }
+}
+
+/**
+ * Reads `metadata.parents` of a checkpoint, which maps the namespaces of
+ * the graphs a subgraph checkpoint ran under to their checkpoint IDs.
+ */
+async function readCheckpointParents(
+  context: RedisSaverContext,
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string
+): Promise<Record<string, string>> {
+  const key = context.keySchema.checkpointKey(threadId, checkpointNs, checkpointId);
+  const [metadata, type, encoding, compression] = await withSaverRetry(context, () =>
+    context.connection.hmgetBuffer(key, "metadata", "metadata_type", "encoding", "metadata_compression")
+  );
+  if (!metadata || !type) {
+    return {};
+  }
+  try {
+    const { parents } = await context.serde.loadsTyped(
+      type.toString(),
+      await readRedisBlob(metadata, encoding ?? undefined, compression ?? undefined)
+    );
+    return parents ?? {};
+  } catch (error) {
+    throw new CheckpointSerializationError(
+      `Failed to deserialize checkpoint metadata: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Key: ${key}, Thread: ${threadId}`,
+      { cause: error, operation: "copyThread", key, thread_id: threadId, checkpoint_id: checkpointId }
+    );
+  }
+}
+
+/**
+ * Copies one checkpoint and its pending writes to another thread inside
+ * Redis. Write keys contain the thread ID, so they are renamed and indexed
+ * again. In cluster mode the source and target keys live in different
+ * slots, so the data is read and written back in a transaction instead.
+ *
+ * @returns The TTL the checkpoint was saved with and its parent ID, or
+ * undefined if it was pruned or expired since the index was read
+ */
+async function copyCheckpoint(
+  context: RedisSaverContext,
+  sourceThreadId: string,
+  targetThreadId: string,
+  checkpointNs: string,
+  checkpointId: string
+): Promise<{ ttl?: number; parentId?: string } | undefined> {
+  const sourceKey = context.keySchema.checkpointKey(sourceThreadId, checkpointNs, checkpointId);
+  const key = context.keySchema.checkpointKey(targetThreadId, checkpointNs, checkpointId);
+  const indexKey = context.keySchema.checkpointIndexKey(targetThreadId, checkpointNs);
+  const namespacesKey = context.keySchema.namespacesKey(targetThreadId);
+  const writesIndexKey = context.keySchema.writesIndexKey(
+    targetThreadId,
+    checkpointNs,
+    checkpointId
+  );
+  const targetWriteKey = (writeKey: string) => {
+    const { task_id, idx } = context.keySchema.parseWritesKey(writeKey);
+    return context.keySchema.writesKey(
+      targetThreadId,
+      checkpointNs,
+      checkpointId,
+      task_id,
+      Number(idx)
+    );
+  };
+
+  const writeKeys = await withSaverRetry(context, () =>
+    context.connection.smembers(
+      context.keySchema.writesIndexKey(sourceThreadId, checkpointNs, checkpointId)
+    )
+  );
+
+  if (!context.isCluster) {
+    const reply = (await withSaverRetry(context, () =>
+      context.connection.eval(
+        COPY_CHECKPOINT_SCRIPT,
+        5 + writeKeys.length * 2,
+        sourceKey,
+        key,
+        indexKey,
+        namespacesKey,
+        writesIndexKey,
+        ...writeKeys.flatMap((writeKey) => [writeKey, targetWriteKey(writeKey)]),
+        checkpointId,
+        checkpointNs,
+        context.ttl ?? ""
+      )
+    )) as [number | string, string] | null;
+    if (!reply) {
+      return undefined;
+    }
+    const [ttl, parentId] = reply;
+    return {
+      ...(typeof ttl === "number" && { ttl }),
+      ...(parentId && { parentId }),
+    };
+  }
+
+  const [data, writes] = await withSaverRetry(context, () =>
+    Promise.all([
+      context.connection.hgetallBuffer(sourceKey),
+      Promise.all(writeKeys.map((writeKey) => context.connection.hgetallBuffer(writeKey))),
+    ])
+  );
+  // Pruned or expired since the index was read
+  if (Object.keys(data).length === 0) {
+    return undefined;
+  }
+
+  const ttl = data.ttl ? Number(data.ttl.toString()) : context.ttl;
+  await withSaverRetry(context, async () => {
+    const transaction = context.connection
+      .multi()
+      .hset(key, data)
+      .zadd(indexKey, 0, checkpointId)
+      .sadd(namespacesKey, checkpointNs);
+    const targetKeys = [key];
+
+    for (const [i, writeKey] of writeKeys.entries()) {
+      if (Object.keys(writes[i]).length === 0) {
+        continue;
+      }
+      transaction
+        .hset(targetWriteKey(writeKey), writes[i])
+        .sadd(writesIndexKey, targetWriteKey(writeKey));
+      targetKeys.push(targetWriteKey(writeKey));
+    }
+
+    if (ttl) {
+      if (targetKeys.length > 1) {
+        targetKeys.push(writesIndexKey);
+      }
+      for (const targetKey of targetKeys) {
+        transaction.expire(targetKey, ttl);
+      }
+    }
+    await execTransaction(transaction);
+  });
+
+  const parentId = data.parent_checkpoint_id?.toString();
+  return { ...(ttl && { ttl }), ...(parentId && { parentId }) };
+}
+
+/**
+ * Reads the registry entry of a thread and counts its checkpoints across
+ * all namespaces, so the count reflects pruned and deleted checkpoints.
+ */
+async function loadThread(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<ThreadInfo | undefined> {
+  const connection = getReadConnection(context, threadId);
+  const [registry, counts] = await withSaverRetry(context, async () => {
+    const [registry, namespaces] = await Promise.all([
+      connection.hgetall(context.keySchema.threadKey(threadId)),
+      connection.smembers(context.keySchema.namespacesKey(threadId)),
+    ]);
+    const counts = await Promise.all(
+      namespaces.map((checkpointNs) =>
+        connection.zcard(context.keySchema.checkpointIndexKey(threadId, checkpointNs))
+      )
+    );
+    return [registry, counts] as const;
+  });
+
+  if (!registry.created_at) {
+    return undefined;
+  }
+
+  let metadata: Record<string, unknown> | undefined;
+  try {
+    metadata = registry.metadata ? JSON.parse(registry.metadata) : undefined;
+  } catch (error) {
+    throw new CheckpointSerializationError(
+      `Failed to parse thread metadata: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Thread: ${threadId}`,
+      { cause: error, operation: "getThread", key: context.keySchema.threadKey(threadId), thread_id: threadId }
+    );
+  }
+
+  return {
+    thread_id: threadId,
+    created_at: Number(registry.created_at),
+    updated_at: Number(registry.updated_at),
+    checkpoint_count: counts.reduce((sum, count) => sum + count, 0),
+    ...(metadata !== undefined && { metadata }),
+  };
+}
+
+/**
+ * Removes a thread from the thread indexes once it no longer exists, e.g.
+ * after its keys expired. Scores are read before checking the thread, and
+ * entries are only removed while their score is unchanged, so a concurrent
+ * put() recreating the thread keeps them.
+ */
+async function removeExpiredThread(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<void> {
+  const indexKeys = [
+    context.keySchema.threadIndexKey(),
+    context.keySchema.threadCreatedIndexKey(),
+  ];
+  const scores = await Promise.all(
+    indexKeys.map((indexKey) => context.connection.zscore(indexKey, threadId))
+  );
+  if (await threadExists(context, threadId)) {
+    return;
+  }
+
+  for (const [i, indexKey] of indexKeys.entries()) {
+    const score = scores[i];
+    if (score !== null) {
+      await context.connection.eval(REMOVE_IF_SCORE_SCRIPT, 1, indexKey, threadId, score);
+    }
+  }
+}
+
+/**
+ * Checks the primary for the registry entry or checkpoint namespaces of a
+ * thread. Both expire with the thread and are removed by deleteThread().
+ */
+export async function threadExists(
+  context: RedisSaverContext,
+  threadId: string
+): Promise<boolean> {
+  const count = await context.connection.exists(
+    context.keySchema.threadKey(threadId),
+    context.keySchema.namespacesKey(threadId)
+  );
+  return count > 0;
+}
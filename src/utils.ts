@@ -1,4 +1,14 @@
-import type { RunnableConfig } from "@langchain/core/runnables";
+import { Buffer } from "node:buffer";
+import { promisify } from "node:util";
+import {
+  brotliCompress,
+  brotliDecompress,
+  deflate,
+  gunzip,
+  gzip,
+  inflate,
+} from "node:zlib";
+import type { ChainableCommander } from "ioredis";
 import {
   type CheckpointTuple,
   type SerializerProtocol,
@@ -6,16 +16,104 @@ import {
   CheckpointPendingWrite,
 } from "@langchain/langgraph-checkpoint";
 
+import {
+  type CheckpointErrorContext,
+  CheckpointValidationError,
+  RedisCheckpointConnectionError,
+  RedisCheckpointError,
+} from "./errors.js";
+
 const REDIS_KEY_SEPARATOR = ":";
 
+/**
+ * Value of the `encoding` hash field for blobs stored as raw bytes. Records
+ * without it were written by older versions, which stored blobs as
+ * comma-separated decimal byte strings.
+ */
+export const REDIS_BLOB_ENCODING = "binary";
+
+export type RedisHashData = Record<string, string | Buffer>;
+
+/**
+ * Runs a MULTI/EXEC transaction and rejects with the first command error,
+ * since ioredis reports per-command failures in the result array.
+ */
+export async function execTransaction(
+  transaction: ChainableCommander
+): Promise<unknown[]> {
+  const results = await transaction.exec();
+  if (!results) {
+    throw new Error("Transaction was aborted");
+  }
+  for (const [error] of results) {
+    if (error) {
+      throw error;
+    }
+  }
+  return results.map(([, result]) => result);
+}
+
+/**
+ * Returns errors the saver raised itself as they are and wraps any other
+ * error, typically one of a Redis command, in a RedisCheckpointConnectionError.
+ * Its message starts with `failure`, then the original message and `details`,
+ * such as the thread and key involved.
+ */
+export function wrapRedisError(
+  error: unknown,
+  failure: string,
+  details: string,
+  context: Omit<CheckpointErrorContext, "cause">
+): RedisCheckpointError {
+  if (error instanceof RedisCheckpointError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new RedisCheckpointConnectionError(
+    `${failure}: ${message}${details ? `. ${details}` : ""}`,
+    { cause: error, ...context }
+  );
+}
+
+// Characters that would break key parsing, act as glob patterns in
+// KEYS/SCAN or start a Redis Cluster hash tag, plus the escape character
+const REDIS_KEY_RESERVED_CHARS = /[%:*?[\]\\{}]/g;
+const REDIS_KEY_ESCAPE_SEQUENCE = /%([0-9A-F]{2})/g;
+
+/**
+ * Percent-encodes reserved characters so any string can be used as a key
+ * segment. Segments without reserved characters are left unchanged, so keys
+ * written by earlier versions keep their names.
+ */
+export function escapeRedisKeySegment(segment: string): string {
+  return segment.replace(
+    REDIS_KEY_RESERVED_CHARS,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+export function unescapeRedisKeySegment(segment: string): string {
+  return segment.replace(REDIS_KEY_ESCAPE_SEQUENCE, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+}
+
+function joinRedisKey(type: string, segments: string[]): string {
+  return [type, ...segments.map(escapeRedisKeySegment)].join(
+    REDIS_KEY_SEPARATOR
+  );
+}
+
+function splitRedisKey(redisKey: string): string[] {
+  return redisKey.split(REDIS_KEY_SEPARATOR).map(unescapeRedisKeySegment);
+}
+
 export function makeRedisCheckpointKey(
   threadId: string,
   checkpointNs: string,
   checkpointId: string
 ): string {
-  return ["checkpoint", threadId, checkpointNs, checkpointId].join(
-    REDIS_KEY_SEPARATOR
-  );
+  return joinRedisKey("checkpoint", [threadId, checkpointNs, checkpointId]);
 }
 
 export function makeRedisCheckpointWritesKey(
@@ -25,19 +123,331 @@ export function makeRedisCheckpointWritesKey(
   taskId: string,
   idx: number | null
 ): string {
-  const key = ["writes", threadId, checkpointNs, checkpointId, taskId];
+  const segments = [threadId, checkpointNs, checkpointId, taskId];
 
   if (idx === null) {
-    return key.join(REDIS_KEY_SEPARATOR);
+    return joinRedisKey("writes", segments);
   }
 
-  return [...key, idx?.toString()].join(REDIS_KEY_SEPARATOR);
+  return joinRedisKey("writes", [...segments, idx.toString()]);
+}
+
+/**
+ * Sorted set holding every checkpoint ID of a thread namespace. All members
+ * share score 0 so the set is ordered lexicographically, which matches the
+ * time ordering of uuid6 checkpoint IDs.
+ */
+export function makeRedisCheckpointIndexKey(
+  threadId: string,
+  checkpointNs: string
+): string {
+  return joinRedisKey("checkpoint_index", [threadId, checkpointNs]);
+}
+
+/**
+ * Set holding every checkpoint namespace used by a thread.
+ */
+export function makeRedisCheckpointNamespacesKey(threadId: string): string {
+  return joinRedisKey("checkpoint_namespaces", [threadId]);
+}
+
+/**
+ * Sorted set of all thread IDs, scored by the time of their latest checkpoint
+ * in milliseconds.
+ */
+export function makeRedisThreadIndexKey(): string {
+  return "thread_index";
+}
+
+/**
+ * Sorted set of all thread IDs, scored by the time of their first checkpoint
+ * in milliseconds.
+ */
+export function makeRedisThreadCreatedIndexKey(): string {
+  return "thread_created_index";
+}
+
+/**
+ * Hash registering a thread, holding its `created_at` and `updated_at`
+ * timestamps and the JSON encoded thread metadata.
+ */
+export function makeRedisThreadKey(threadId: string): string {
+  return joinRedisKey("thread", [threadId]);
+}
+
+/**
+ * String holding the token of the current lease on a thread.
+ */
+export function makeRedisThreadLeaseKey(threadId: string): string {
+  return joinRedisKey("thread_lease", [threadId]);
+}
+
+/**
+ * Stream of the checkpoint and write events published by the change feed.
+ */
+export function makeRedisChangeFeedKey(): string {
+  return "change_feed";
+}
+
+/**
+ * Set holding the keys of all pending writes saved against a checkpoint.
+ */
+export function makeRedisCheckpointWritesIndexKey(
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string
+): string {
+  return joinRedisKey("writes_index", [threadId, checkpointNs, checkpointId]);
+}
+
+/**
+ * Hash holding one item of a `RedisStore`. The namespace is passed with its
+ * labels joined by periods, which labels are not allowed to contain.
+ */
+export function makeRedisStoreItemKey(namespace: string, key: string): string {
+  return joinRedisKey("store", [namespace, key]);
+}
+
+/**
+ * Sorted set of the item keys of a store namespace, scored by the expiry
+ * time of each item in milliseconds, or `+inf` for items without a TTL.
+ */
+export function makeRedisStoreNamespaceKey(namespace: string): string {
+  return joinRedisKey("store_index", [namespace]);
+}
+
+/**
+ * Sorted set of the item keys of a store namespace, scored by the update
+ * time of each item in milliseconds, so searches page through it in order.
+ */
+export function makeRedisStoreUpdatedKey(namespace: string): string {
+  return joinRedisKey("store_updated", [namespace]);
+}
+
+/**
+ * Hash holding the embedding of one indexed field of a store item, so each
+ * vector is its own RediSearch document.
+ */
+export function makeRedisStoreVectorKey(
+  namespace: string,
+  key: string,
+  path: string
+): string {
+  return joinRedisKey("store_vector", [namespace, key, path]);
+}
+
+/**
+ * Sorted set of every store namespace, with labels joined by periods. All
+ * members share score 0 so the set is ordered lexicographically.
+ */
+export function makeRedisStoreNamespacesKey(): string {
+  return "store_namespaces";
+}
+
+/**
+ * Glob pattern matching every key of one type, optionally limited to a
+ * single thread.
+ */
+export function makeRedisKeyPattern(type: string, threadId?: string): string {
+  const segments = threadId === undefined ? [] : [threadId];
+  return `${joinRedisKey(type, segments)}${REDIS_KEY_SEPARATOR}*`;
+}
+
+/**
+ * Glob patterns matching every key that belongs to a thread, across all
+ * namespaces. The thread ID is escaped, so the patterns never match keys of
+ * another thread whose ID merely starts with the same characters.
+ */
+export function makeRedisThreadKeyPatterns(threadId: string): string[] {
+  return ["checkpoint", "writes", "checkpoint_index", "writes_index"].map(
+    (type) => makeRedisKeyPattern(type, threadId)
+  );
+}
+
+/**
+ * Describes how the saver names its keys. Use `createRedisKeySchema()` for
+ * the default layout, optionally namespaced with a key prefix, and override
+ * individual members to customize it.
+ */
+export type RedisKeySchema = {
+  checkpointKey(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): string;
+  writesKey(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    taskId: string,
+    idx: number
+  ): string;
+  checkpointIndexKey(threadId: string, checkpointNs: string): string;
+  namespacesKey(threadId: string): string;
+  threadIndexKey(): string;
+  threadCreatedIndexKey(): string;
+  threadKey(threadId: string): string;
+  threadLeaseKey(threadId: string): string;
+  changeFeedKey(): string;
+  writesIndexKey(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): string;
+  threadKeyPatterns(threadId: string): string[];
+  checkpointKeyPattern(threadId?: string): string;
+  writesKeyPattern(threadId?: string): string;
+  parseCheckpointKey(redisKey: string): Record<string, string>;
+  parseWritesKey(redisKey: string): Record<string, string>;
+};
+
+const REDIS_KEY_PATTERN_CHARS = /[*?[\]\\]/;
+
+function makeRedisKeyPrefix(keyPrefix?: string): string {
+  if (keyPrefix && REDIS_KEY_PATTERN_CHARS.test(keyPrefix)) {
+    throw new CheckpointValidationError(
+      `Invalid key prefix: ${keyPrefix}. Key prefixes must not contain glob pattern characters (*, ?, [, ], \\).`,
+      { operation: "createRedisKeySchema" }
+    );
+  }
+  return keyPrefix ? `${keyPrefix}${REDIS_KEY_SEPARATOR}` : "";
+}
+
+/**
+ * Wraps the segment following the key type, which holds the thread ID or
+ * store namespace, in a hash tag. The segment is already escaped, so it
+ * contains no braces that would end the tag early.
+ */
+function tagRedisKey(redisKey: string): string {
+  const [type, segment, ...rest] = redisKey.split(REDIS_KEY_SEPARATOR);
+  return [type, `{${segment}}`, ...rest].join(REDIS_KEY_SEPARATOR);
+}
+
+/**
+ * Creates the default key schema. A `keyPrefix` such as `myapp:prod` is
+ * prepended verbatim, producing keys like `myapp:prod:checkpoint:...`. With
+ * `hashTags`, the thread segment is wrapped in `{}` so every key of a thread
+ * maps to the same Redis Cluster slot.
+ */
+export function createRedisKeySchema(
+  keyPrefix?: string,
+  { hashTags = false }: { hashTags?: boolean } = {}
+): RedisKeySchema {
+  const prefix = makeRedisKeyPrefix(keyPrefix);
+  const stripPrefix = (redisKey: string) => {
+    if (!redisKey.startsWith(prefix)) {
+      throw new Error(`Expected key to start with prefix '${keyPrefix}'`);
+    }
+    return redisKey.slice(prefix.length);
+  };
+  const tag = (redisKey: string) => (hashTags ? tagRedisKey(redisKey) : redisKey);
+  const untag = (parsedKey: Record<string, string>) => {
+    const { thread_id } = parsedKey;
+    if (!hashTags) {
+      return parsedKey;
+    }
+    if (!thread_id?.startsWith("{") || !thread_id.endsWith("}")) {
+      throw new Error("Expected thread segment to be wrapped in a hash tag");
+    }
+    return { ...parsedKey, thread_id: thread_id.slice(1, -1) };
+  };
+
+  return {
+    checkpointKey: (threadId, checkpointNs, checkpointId) =>
+      prefix +
+      tag(makeRedisCheckpointKey(threadId, checkpointNs, checkpointId)),
+    writesKey: (threadId, checkpointNs, checkpointId, taskId, idx) =>
+      prefix +
+      tag(
+        makeRedisCheckpointWritesKey(
+          threadId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          idx
+        )
+      ),
+    checkpointIndexKey: (threadId, checkpointNs) =>
+      prefix + tag(makeRedisCheckpointIndexKey(threadId, checkpointNs)),
+    namespacesKey: (threadId) =>
+      prefix + tag(makeRedisCheckpointNamespacesKey(threadId)),
+    threadIndexKey: () => prefix + makeRedisThreadIndexKey(),
+    threadCreatedIndexKey: () => prefix + makeRedisThreadCreatedIndexKey(),
+    threadKey: (threadId) => prefix + tag(makeRedisThreadKey(threadId)),
+    threadLeaseKey: (threadId) => prefix + tag(makeRedisThreadLeaseKey(threadId)),
+    changeFeedKey: () => prefix + makeRedisChangeFeedKey(),
+    writesIndexKey: (threadId, checkpointNs, checkpointId) =>
+      prefix +
+      tag(
+        makeRedisCheckpointWritesIndexKey(threadId, checkpointNs, checkpointId)
+      ),
+    threadKeyPatterns: (threadId) =>
+      makeRedisThreadKeyPatterns(threadId).map(
+        (pattern) => prefix + tag(pattern)
+      ),
+    checkpointKeyPattern: (threadId) =>
+      prefix +
+      (threadId === undefined
+        ? makeRedisKeyPattern("checkpoint")
+        : tag(makeRedisKeyPattern("checkpoint", threadId))),
+    writesKeyPattern: (threadId) =>
+      prefix +
+      (threadId === undefined
+        ? makeRedisKeyPattern("writes")
+        : tag(makeRedisKeyPattern("writes", threadId))),
+    parseCheckpointKey: (redisKey) =>
+      untag(parseRedisCheckpointKey(stripPrefix(redisKey))),
+    parseWritesKey: (redisKey) =>
+      untag(parseRedisCheckpointWritesKey(stripPrefix(redisKey))),
+  };
+}
+
+/**
+ * Describes how `RedisStore` names its keys. Namespaces are passed as label
+ * arrays.
+ */
+export type RedisStoreKeySchema = {
+  itemKey(namespace: string[], key: string): string;
+  namespaceKey(namespace: string[]): string;
+  namespaceUpdatedKey(namespace: string[]): string;
+  namespacesKey(): string;
+  vectorKey(namespace: string[], key: string, path: string): string;
+  vectorKeyPrefix(): string; // Shared by every vector key, for FT.CREATE
+  vectorIndexName(): string;
+};
+
+/**
+ * Creates the default store key schema, using the same `keyPrefix` rules as
+ * `createRedisKeySchema()`. With `hashTags`, the namespace segment is wrapped
+ * in `{}` so the items of a namespace and its index share a cluster slot.
+ */
+export function createRedisStoreKeySchema(
+  keyPrefix?: string,
+  { hashTags = false }: { hashTags?: boolean } = {}
+): RedisStoreKeySchema {
+  const prefix = makeRedisKeyPrefix(keyPrefix);
+  const tag = (redisKey: string) => (hashTags ? tagRedisKey(redisKey) : redisKey);
+
+  return {
+    itemKey: (namespace, key) =>
+      prefix + tag(makeRedisStoreItemKey(namespace.join("."), key)),
+    namespaceKey: (namespace) =>
+      prefix + tag(makeRedisStoreNamespaceKey(namespace.join("."))),
+    namespaceUpdatedKey: (namespace) =>
+      prefix + tag(makeRedisStoreUpdatedKey(namespace.join("."))),
+    namespacesKey: () => prefix + makeRedisStoreNamespacesKey(),
+    vectorKey: (namespace, key, path) =>
+      prefix + tag(makeRedisStoreVectorKey(namespace.join("."), key, path)),
+    vectorKeyPrefix: () => `${prefix}store_vector${REDIS_KEY_SEPARATOR}`,
+    vectorIndexName: () => `${prefix}store_vector_index`,
+  };
 }
+
 export function parseRedisCheckpointWritesKey(
   redisKey: string
 ): Record<string, string> {
   const [namespace, thread_id, checkpoint_ns, checkpoint_id, task_id, idx] =
-    redisKey.split(REDIS_KEY_SEPARATOR);
+    splitRedisKey(redisKey);
 
   if (namespace !== "writes") {
     throw new Error("Expected checkpoint key to start with 'writes'");
@@ -52,35 +462,6 @@ export function parseRedisCheckpointWritesKey(
   };
 }
 
-export function filterKeys(
-  keys: string[],
-  before?: RunnableConfig,
-  limit?: number
-): string[] {
-  let processedKeys = keys;
-
-  if (before) {
-    processedKeys = processedKeys.filter((k) => {
-      const checkpointKey = parseRedisCheckpointKey(k);
-      return checkpointKey.checkpoint_id < before.configurable?.checkpoint_id;
-    });
-  }
-
-  processedKeys = processedKeys.sort((a, b) => {
-    const checkpointKeyA = parseRedisCheckpointKey(a);
-    const checkpointKeyB = parseRedisCheckpointKey(b);
-    return checkpointKeyA.checkpoint_id.localeCompare(
-      checkpointKeyB.checkpoint_id
-    );
-  });
-
-  if (limit) {
-    processedKeys = processedKeys.slice(0, limit);
-  }
-
-  return processedKeys;
-}
-
 export async function dumpWrites(
   serde: SerializerProtocol,
   writes: PendingWrite[]
@@ -93,16 +474,16 @@ export async function dumpWrites(
 
 export async function loadWrites(
   serde: SerializerProtocol,
-  taskIdToData: Record<string, Record<string, string>>
+  taskIdToData: Record<string, RedisHashData>
 ): Promise<CheckpointPendingWrite[]> {
   const writesPromises = Object.entries(taskIdToData).map(
     async ([taskId, data]) =>
       [
         taskId.split(",")[0],
-        data.channel,
+        data.channel.toString(),
         await serde.loadsTyped(
-          data.type,
-          decodeCommaSeparatedString(data.value)
+          data.type.toString(),
+          await readRedisBlob(data.value, data.encoding, data.compression)
         ),
       ] as CheckpointPendingWrite
   );
@@ -113,10 +494,11 @@ export async function loadWrites(
 export async function parseRedisCheckpointData(
   serde: SerializerProtocol,
   key: string,
-  data: Record<string, string>,
-  pendingWrites?: CheckpointPendingWrite[]
+  data: RedisHashData,
+  pendingWrites?: CheckpointPendingWrite[],
+  parseKey: (redisKey: string) => Record<string, string> = parseRedisCheckpointKey
 ): Promise<CheckpointTuple> {
-  const parsedKey = parseRedisCheckpointKey(key);
+  const parsedKey = parseKey(key);
   const { thread_id, checkpoint_ns = "", checkpoint_id } = parsedKey;
 
   const config = {
@@ -127,15 +509,19 @@ export async function parseRedisCheckpointData(
     },
   };
   const checkpoint = await serde.loadsTyped(
-    data.type,
-    decodeCommaSeparatedString(data.checkpoint)
+    data.type.toString(),
+    await readRedisBlob(data.checkpoint, data.encoding, data.compression)
   );
 
   const metadata = await serde.loadsTyped(
-    data.metadata_type,
-    decodeCommaSeparatedString(data.metadata)
+    data.metadata_type.toString(),
+    await readRedisBlob(
+      data.metadata,
+      data.encoding,
+      data.metadata_compression
+    )
   );
-  const parentCheckpointId = data.parent_checkpoint_id;
+  const parentCheckpointId = data.parent_checkpoint_id?.toString();
   const parentConfig = parentCheckpointId
     ? {
         configurable: {
@@ -153,7 +539,7 @@ export function parseRedisCheckpointKey(
   redisKey: string
 ): Record<string, string> {
   const [namespace, thread_id, checkpoint_ns, checkpoint_id] =
-    redisKey.split(REDIS_KEY_SEPARATOR);
+    splitRedisKey(redisKey);
 
   if (namespace !== "checkpoint") {
     throw new Error("Expected checkpoint key to start with 'checkpoint'");
@@ -166,8 +552,307 @@ export function parseRedisCheckpointKey(
   };
 }
 
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function isFilterOperators(value: unknown): value is Record<string, unknown> {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
+
+function compareFilterValue(actual: unknown, expected: unknown): boolean {
+  if (isFilterOperators(expected)) {
+    return Object.entries(expected).every(([operator, value]) => {
+      switch (operator) {
+        case "$eq":
+          return compareFilterValue(actual, value);
+        case "$ne":
+          return !compareFilterValue(actual, value);
+        case "$gt":
+          return Number(actual) > Number(value);
+        case "$gte":
+          return Number(actual) >= Number(value);
+        case "$lt":
+          return Number(actual) < Number(value);
+        case "$lte":
+          return Number(actual) <= Number(value);
+        case "$in":
+          return (
+            Array.isArray(value) &&
+            value.some((item) => compareFilterValue(actual, item))
+          );
+        case "$nin":
+          return (
+            !Array.isArray(value) ||
+            !value.some((item) => compareFilterValue(actual, item))
+          );
+        default:
+          throw new CheckpointValidationError(
+            `Unsupported filter operator: ${operator}`,
+            { operation: "list" }
+          );
+      }
+    });
+  }
+
+  if (isPlainObject(expected)) {
+    return isPlainObject(actual) && matchesFilter(actual, expected);
+  }
+
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => compareFilterValue(actual[i], item))
+    );
+  }
+
+  return actual === expected;
+}
+
+/**
+ * Compiles a Redis glob pattern, as used by KEYS and PSUBSCRIBE, into a
+ * regular expression. `*`, `?` and `[...]` are wildcards, and `\\` escapes
+ * the next character.
+ */
+export function compileRedisPattern(pattern: string): RegExp {
+  const escapeRegExp = (text: string) => text.replace(/[\\^$.*+?()[\]{}|-]/g, "\\$&");
+  let source = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    const end = char === "[" ? pattern.indexOf("]", i + 2) : -1;
+    if (char === "\\" && i + 1 < pattern.length) {
+      i += 1;
+      source += escapeRegExp(pattern[i]);
+    } else if (char === "*") {
+      source += "[\\s\\S]*";
+    } else if (char === "?") {
+      source += "[\\s\\S]";
+    } else if (end !== -1) {
+      const body = pattern.slice(i + 1, end);
+      const negated = body.startsWith("^");
+      const chars = (negated ? body.slice(1) : body).replace(/[\\\]^[]/g, "\\$&");
+      source += `[${negated ? "^" : ""}${chars}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Encodes an embedding as little-endian FLOAT32 values, the layout RediSearch
+ * expects for vector fields and query parameters.
+ */
+export function encodeRedisVector(vector: number[]): Buffer {
+  const buffer = Buffer.alloc(vector.length * 4);
+  vector.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer;
+}
+
+export function decodeRedisVector(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 4 }, (_, i) =>
+    buffer.readFloatLE(i * 4)
+  );
+}
+
+/**
+ * Checks whether a metadata object matches a `CheckpointListOptions.filter`.
+ * Nested objects match when they contain every filtered field, and values
+ * may use the `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in` and `$nin`
+ * operators, e.g. `{ source: "input", step: { $gt: 5 } }`.
+ */
+export function matchesFilter(
+  value: Record<string, unknown> | undefined,
+  filter: Record<string, unknown>
+): boolean {
+  return Object.entries(filter).every(([key, expected]) =>
+    compareFilterValue(value?.[key], expected)
+  );
+}
+
+// Offset between the UUID epoch (1582-10-15) and the Unix epoch, in 100ns
+const UUID_EPOCH_OFFSET = BigInt("0x01b21dd213814000");
+const UUID6_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-6[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Returns the creation time in milliseconds encoded in a uuid6 checkpoint ID,
+ * or undefined for IDs that are not uuid6.
+ */
+export function getCheckpointIdTimestamp(checkpointId: string): number | undefined {
+  if (!UUID6_PATTERN.test(checkpointId)) {
+    return undefined;
+  }
+
+  const hex = checkpointId.replace(/-/g, "");
+  const intervals = BigInt(`0x${hex.slice(0, 12)}${hex.slice(13, 16)}`);
+  return Number((intervals - UUID_EPOCH_OFFSET) / BigInt(10000));
+}
+
+export function encodeRedisBlob(value: Uint8Array): Buffer {
+  return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function decodeRedisBlob(
+  value: string | Buffer,
+  encoding?: string | Buffer
+): Uint8Array | string {
+  if (encoding?.toString() === REDIS_BLOB_ENCODING) {
+    const bytes = typeof value === "string" ? Buffer.from(value) : value;
+    return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  // Legacy records store blobs as comma-separated decimal byte strings
+  return decodeCommaSeparatedString(value.toString());
+}
+
+export type RedisCompressionCodec = "gzip" | "brotli" | "deflate";
+
+export type CompressionOptions = {
+  codec: RedisCompressionCodec;
+  threshold?: number; // Blobs smaller than this many bytes are stored as is (default 1024)
+};
+
+const REDIS_COMPRESSION_CODECS: Record<
+  RedisCompressionCodec,
+  {
+    compress: (value: Uint8Array) => Promise<Buffer>;
+    decompress: (value: Uint8Array) => Promise<Buffer>;
+  }
+> = {
+  gzip: { compress: promisify(gzip), decompress: promisify(gunzip) },
+  brotli: {
+    compress: promisify(brotliCompress),
+    decompress: promisify(brotliDecompress),
+  },
+  deflate: { compress: promisify(deflate), decompress: promisify(inflate) },
+};
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+export function isRedisCompressionCodec(
+  codec: unknown
+): codec is RedisCompressionCodec {
+  return (
+    typeof codec === "string" &&
+    Object.prototype.hasOwnProperty.call(REDIS_COMPRESSION_CODECS, codec)
+  );
+}
+
+/**
+ * Compresses a blob that reaches the threshold. Returns the bytes to store
+ * and the codec to record next to them, which is undefined when the blob is
+ * stored as is because it is small or does not shrink.
+ */
+export async function compressRedisBlob(
+  value: Uint8Array,
+  compression?: CompressionOptions
+): Promise<[Uint8Array, RedisCompressionCodec | undefined]> {
+  const threshold = compression?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  if (!compression || value.byteLength < threshold) {
+    return [value, undefined];
+  }
+
+  const compressed = await REDIS_COMPRESSION_CODECS[compression.codec].compress(
+    value
+  );
+  if (compressed.byteLength >= value.byteLength) {
+    return [value, undefined];
+  }
+  return [compressed, compression.codec];
+}
+
+/**
+ * Decodes and decompresses a blob read from a hash field. Legacy records
+ * yield a string, all others the stored bytes.
+ */
+export async function readRedisBlob(
+  value: string | Buffer,
+  encoding?: string | Buffer,
+  compression?: string | Buffer
+): Promise<Uint8Array | string> {
+  return decompressRedisBlob(decodeRedisBlob(value, encoding), compression);
+}
+
+async function decompressRedisBlob(
+  value: Uint8Array | string,
+  codec?: string | Buffer
+): Promise<Uint8Array | string> {
+  if (codec === undefined || codec.length === 0) {
+    return value;
+  }
+
+  const name = codec.toString();
+  if (!isRedisCompressionCodec(name)) {
+    throw new Error(`Unsupported compression codec: ${name}`);
+  }
+  // Legacy comma-separated records are never compressed
+  if (typeof value === "string") {
+    throw new Error(`Expected a binary blob for compression codec: ${name}`);
+  }
+
+  const bytes = await REDIS_COMPRESSION_CODECS[name].decompress(value);
+  return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
 function decodeCommaSeparatedString(str: string): string {
   const numbers = str.split(",").map((num) => parseInt(num, 10));
   const uint8Array = new Uint8Array(numbers);
   return new TextDecoder().decode(uint8Array);
 }
+
+/**
+ * Encodes every field of a hash as base64, so binary blobs survive JSON
+ * byte for byte.
+ */
+export function encodeRedisHashFields(
+  data: Record<string, Buffer>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(data).map(([field, value]) => [field, value.toString("base64")])
+  );
+}
+
+export function decodeRedisHashFields(
+  fields: Record<string, string>
+): Record<string, Buffer> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [
+      field,
+      Buffer.from(value, "base64"),
+    ])
+  );
+}
+
+/**
+ * Splits a stream of text or bytes, such as a file read stream, into lines.
+ */
+export async function* readLines(
+  chunks: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for await (const chunk of chunks) {
+    buffered +=
+      typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    yield* lines;
+  }
+
+  buffered += decoder.decode();
+  if (buffered) {
+    yield buffered;
+  }
+}